@@ -0,0 +1,101 @@
+import { initializeApp } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import type { LeaderboardEntry } from "@/firebase/Firestore";
+import { Country } from "@/library/gameTypes";
+import { getRulesKey } from "@/library/gameSetup";
+import { mergeCountryData } from "@/library/countryData";
+import {
+  GameLog,
+  ReplayError,
+  getFinishedAt,
+  parseGameLog,
+  replayGame,
+} from "@/library/gameLog";
+import countryList from "../../public/countries.json";
+import countryExtras from "../../public/countries_v2.json";
+import flagSimilarity from "../../public/flag-similarity.json";
+
+initializeApp();
+
+// The same list in the same order as the client plays with, or seeded games
+// would ask different questions
+const countries = mergeCountryData(
+  countryList as Country[],
+  countryExtras as Country[],
+  flagSimilarity as Record<string, string[]>
+);
+
+// Client clocks drift, but no game finishes in the future
+const MAX_CLOCK_SKEW = 5 * 60 * 1000;
+
+const GRPC_ALREADY_EXISTS = 6;
+
+/**
+ * Firestore document IDs can't contain slashes or be "." or ".."
+ */
+const isDocumentId = (value: unknown): value is string =>
+  typeof value === "string" &&
+  value.length > 0 &&
+  value.length <= 200 &&
+  !value.includes("/") &&
+  value !== "." &&
+  value !== "..";
+
+/**
+ * Replays a finished game's log with the game's own rules and adds the score
+ * the replay earned to the leaderboard, once per game ID. Logs that don't
+ * replay, or whose timing is implausible, are rejected.
+ */
+export const submitScore = onCall(async (request) => {
+  const { gameId, username, score, log: input } = request.data ?? {};
+  if (!isDocumentId(gameId)) {
+    throw new HttpsError("invalid-argument", "The game ID is invalid");
+  }
+
+  let log: GameLog;
+  let replayedScore: number;
+  try {
+    log = parseGameLog(input);
+    replayedScore = replayGame(countries, log).score;
+  } catch (error) {
+    if (error instanceof ReplayError) {
+      throw new HttpsError("invalid-argument", error.message);
+    }
+    throw error;
+  }
+
+  if (replayedScore !== score) {
+    throw new HttpsError(
+      "failed-precondition",
+      `The game log earns ${replayedScore} points, not ${score}`
+    );
+  }
+  const finishedAt = getFinishedAt(log);
+  if (finishedAt === null || finishedAt > Date.now() + MAX_CLOCK_SKEW) {
+    throw new HttpsError("invalid-argument", "The game finished in the future");
+  }
+
+  const entry: LeaderboardEntry = {
+    gameId,
+    userId: request.auth?.uid ?? null,
+    username:
+      (typeof username === "string" && username.trim().slice(0, 40)) ||
+      "Anonymous Player",
+    score: replayedScore,
+    variant: log.setup.variant,
+    rulesKey: getRulesKey(log.setup),
+    questionMode: log.setup.questionMode,
+    region: log.region,
+    subregion: log.subregion === "All Regions" ? null : log.subregion,
+    timestamp: finishedAt,
+  };
+
+  try {
+    await getFirestore().collection("leaderboard").doc(gameId).create(entry);
+  } catch (error) {
+    // A retried upload of a game that is already ranked
+    if ((error as { code?: number }).code !== GRPC_ALREADY_EXISTS) throw error;
+  }
+  return { score: replayedScore };
+});
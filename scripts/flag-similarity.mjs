@@ -0,0 +1,327 @@
+// Builds public/flag-similarity.json: for every country in countries.json,
+// the countries whose flags look most alike. Flags are compared on a coarse
+// colour grid (layout + colours), their dominant colours, and a blurred,
+// colour-blind map of where the colours change, so that shapes like the
+// Nordic crosses match whatever their colours and proportions. The script
+// fails without writing if the Nordic crosses stop matching each other.
+//
+// Usage: node scripts/flag-similarity.mjs
+import { readFileSync, writeFileSync } from "node:fs";
+import { inflateSync } from "node:zlib";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const PUBLIC_DIR = fileURLToPath(new URL("../public", import.meta.url));
+const OUTPUT_FILE = join(PUBLIC_DIR, "flag-similarity.json");
+const GRID_ROWS = 8;
+const GRID_COLS = 12;
+const PALETTE_SIZE = 4;
+const LAYOUT_ROWS = 24;
+const LAYOUT_COLS = 36;
+const LAYOUT_BLUR = 3; // Cells an edge spreads to, so near misses still match
+const EDGE_THRESHOLD = 60;
+const NEIGHBOURS = 10;
+
+// Each of these should list at least three of the others
+const NORDIC_CROSSES = ["Denmark", "Finland", "Iceland", "Norway", "Sweden"];
+
+/**
+ * Minimal PNG decoder for the non-interlaced 8-bit RGB/RGBA and 1-8 bit
+ * palette images in public/flags. Returns RGB pixels on a white background.
+ */
+const decodePng = (buffer) => {
+  let offset = 8;
+  let header = null;
+  let palette = null;
+  let transparency = null;
+  const data = [];
+
+  while (offset < buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("ascii", offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === "IHDR") {
+      header = {
+        width: chunk.readUInt32BE(0),
+        height: chunk.readUInt32BE(4),
+        bitDepth: chunk[8],
+        colorType: chunk[9],
+        interlace: chunk[12],
+      };
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "tRNS") {
+      transparency = chunk;
+    } else if (type === "IDAT") {
+      data.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const { width, height, bitDepth, colorType, interlace } = header;
+  if (interlace !== 0) throw new Error("Interlaced PNGs are not supported");
+
+  const channels = { 2: 3, 3: 1, 6: 4 }[colorType];
+  if (!channels) throw new Error(`Unsupported PNG colour type ${colorType}`);
+
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const raw = inflateSync(Buffer.concat(data));
+  const rows = Buffer.alloc(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = rows.subarray(y * stride, (y + 1) * stride);
+    const prev = y > 0 ? rows.subarray((y - 1) * stride, y * stride) : null;
+
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bytesPerPixel ? out[x - bytesPerPixel] : 0;
+      const b = prev ? prev[x] : 0;
+      const c = prev && x >= bytesPerPixel ? prev[x - bytesPerPixel] : 0;
+      let value = line[x];
+
+      if (filter === 1) value += a;
+      else if (filter === 2) value += b;
+      else if (filter === 3) value += (a + b) >> 1;
+      else if (filter === 4) {
+        const p = a + b - c;
+        const pa = Math.abs(p - a);
+        const pb = Math.abs(p - b);
+        const pc = Math.abs(p - c);
+        value += pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+      }
+      out[x] = value & 0xff;
+    }
+  }
+
+  const pixels = new Uint8Array(width * height * 3);
+  const blend = (index, r, g, b, alpha) => {
+    pixels[index] = (r * alpha + 255 * (255 - alpha)) / 255;
+    pixels[index + 1] = (g * alpha + 255 * (255 - alpha)) / 255;
+    pixels[index + 2] = (b * alpha + 255 * (255 - alpha)) / 255;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 3;
+      const row = y * stride;
+
+      if (colorType === 3) {
+        const bit = x * bitDepth;
+        const byte = rows[row + (bit >> 3)];
+        const shift = 8 - bitDepth - (bit & 7);
+        const entry = (byte >> shift) & ((1 << bitDepth) - 1);
+        const alpha =
+          transparency && entry < transparency.length
+            ? transparency[entry]
+            : 255;
+        blend(
+          target,
+          palette[entry * 3],
+          palette[entry * 3 + 1],
+          palette[entry * 3 + 2],
+          alpha
+        );
+      } else {
+        const source = row + x * channels;
+        blend(
+          target,
+          rows[source],
+          rows[source + 1],
+          rows[source + 2],
+          channels === 4 ? rows[source + 3] : 255
+        );
+      }
+    }
+  }
+
+  return { width, height, pixels };
+};
+
+const colorDistance = (a, b) =>
+  Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+
+/**
+ * Reduces a decoded flag to its comparison features
+ */
+const extractFeatures = ({ width, height, pixels }) => {
+  const grid = [];
+  for (let row = 0; row < GRID_ROWS; row++) {
+    for (let col = 0; col < GRID_COLS; col++) {
+      const x0 = Math.floor((col * width) / GRID_COLS);
+      const x1 = Math.floor(((col + 1) * width) / GRID_COLS);
+      const y0 = Math.floor((row * height) / GRID_ROWS);
+      const y1 = Math.floor(((row + 1) * height) / GRID_ROWS);
+      const sum = [0, 0, 0];
+      let count = 0;
+
+      for (let y = y0; y < y1; y += 2) {
+        for (let x = x0; x < x1; x += 2) {
+          const i = (y * width + x) * 3;
+          sum[0] += pixels[i];
+          sum[1] += pixels[i + 1];
+          sum[2] += pixels[i + 2];
+          count++;
+        }
+      }
+      grid.push(sum.map((value) => value / count));
+    }
+  }
+
+  // Dominant colours from a 4-bit-per-channel histogram
+  const histogram = new Map();
+  for (let i = 0; i < pixels.length; i += 3 * 7) {
+    const key =
+      ((pixels[i] >> 4) << 8) |
+      ((pixels[i + 1] >> 4) << 4) |
+      (pixels[i + 2] >> 4);
+    histogram.set(key, (histogram.get(key) ?? 0) + 1);
+  }
+  const total = [...histogram.values()].reduce((a, b) => a + b, 0);
+  const palette = [...histogram.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, PALETTE_SIZE)
+    .map(([key, count]) => ({
+      color: [
+        ((key >> 8) << 4) + 8,
+        (((key >> 4) & 15) << 4) + 8,
+        ((key & 15) << 4) + 8,
+      ],
+      weight: count / total,
+    }));
+
+  // Colour-blind layout: which cells the colour changes in, across (vertical
+  // edges) and down (horizontal edges)
+  const cells = LAYOUT_ROWS * LAYOUT_COLS;
+  const across = new Uint8Array(cells);
+  const down = new Uint8Array(cells);
+  const pixel = (x, y) => {
+    const i = (y * width + x) * 3;
+    return [pixels[i], pixels[i + 1], pixels[i + 2]];
+  };
+  for (let y = 0; y + 2 < height; y += 2) {
+    for (let x = 0; x + 2 < width; x += 2) {
+      const cell =
+        Math.floor((y * LAYOUT_ROWS) / height) * LAYOUT_COLS +
+        Math.floor((x * LAYOUT_COLS) / width);
+      const color = pixel(x, y);
+      if (colorDistance(color, pixel(x + 2, y)) > EDGE_THRESHOLD) {
+        across[cell] = 1;
+      }
+      if (colorDistance(color, pixel(x, y + 2)) > EDGE_THRESHOLD) {
+        down[cell] = 1;
+      }
+    }
+  }
+
+  // Spreads each edge over its neighbourhood, fading with distance
+  const blur = (edges) => {
+    const blurred = new Float64Array(cells);
+    for (let row = 0; row < LAYOUT_ROWS; row++) {
+      for (let col = 0; col < LAYOUT_COLS; col++) {
+        if (!edges[row * LAYOUT_COLS + col]) continue;
+        for (let dy = -LAYOUT_BLUR; dy <= LAYOUT_BLUR; dy++) {
+          for (let dx = -LAYOUT_BLUR; dx <= LAYOUT_BLUR; dx++) {
+            const y = row + dy;
+            const x = col + dx;
+            if (y < 0 || y >= LAYOUT_ROWS || x < 0 || x >= LAYOUT_COLS) {
+              continue;
+            }
+            blurred[y * LAYOUT_COLS + x] +=
+              1 - Math.max(Math.abs(dx), Math.abs(dy)) / (LAYOUT_BLUR + 1);
+          }
+        }
+      }
+    }
+    return blurred;
+  };
+
+  return { grid, palette, layout: [blur(across), blur(down)] };
+};
+
+/**
+ * Distance between two flags in [0, 1], lower is more alike
+ */
+const flagDistance = (a, b) => {
+  const maxColorDistance = Math.sqrt(3 * 255 ** 2);
+
+  const gridDistance =
+    a.grid.reduce((sum, cell, i) => sum + colorDistance(cell, b.grid[i]), 0) /
+    a.grid.length /
+    maxColorDistance;
+
+  const paletteCoverage = (from, to) =>
+    from.palette.reduce(
+      (sum, { color, weight }) =>
+        sum +
+        weight *
+          Math.min(
+            ...to.palette.map((entry) => colorDistance(color, entry.color))
+          ),
+      0
+    ) / maxColorDistance;
+  const paletteDistance = (paletteCoverage(a, b) + paletteCoverage(b, a)) / 2;
+
+  // Compared per direction, so the few vertical edges of a cross count as
+  // much as the long horizontal ones it shares with a triband
+  const mapDistance = (from, to) => {
+    let difference = 0;
+    let total = 0;
+    from.forEach((value, i) => {
+      difference += Math.abs(value - to[i]);
+      total += value + to[i];
+    });
+    return total ? difference / total : 0;
+  };
+  const layoutDistance =
+    (mapDistance(a.layout[0], b.layout[0]) +
+      mapDistance(a.layout[1], b.layout[1])) /
+    2;
+
+  return 0.25 * gridDistance + 0.15 * paletteDistance + 0.6 * layoutDistance;
+};
+
+const countries = JSON.parse(
+  readFileSync(join(PUBLIC_DIR, "countries.json"), "utf8")
+);
+
+const features = countries.map((country) => {
+  const png = readFileSync(join(PUBLIC_DIR, country.flag));
+  return {
+    name: country.name,
+    flag: country.flag,
+    ...extractFeatures(decodePng(png)),
+  };
+});
+
+const index = {};
+for (const country of features) {
+  index[country.name] = features
+    .filter(
+      (other) => other.name !== country.name && other.flag !== country.flag
+    )
+    .map((other) => ({
+      name: other.name,
+      distance: flagDistance(country, other),
+    }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, NEIGHBOURS)
+    .map(({ name }) => name);
+}
+
+const misplaced = NORDIC_CROSSES.filter(
+  (name) =>
+    NORDIC_CROSSES.filter((other) => index[name]?.includes(other)).length < 3
+);
+if (misplaced.length > 0) {
+  console.error(`Nordic crosses missing from the neighbours of ${misplaced}`);
+  process.exit(1);
+}
+
+writeFileSync(OUTPUT_FILE, JSON.stringify(index, null, 2) + "\n");
+console.log(`Wrote ${Object.keys(index).length} entries to ${OUTPUT_FILE}`);
@@ -0,0 +1,333 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { LogIn, LogOut, UserCircle } from "lucide-react";
+import { toast } from "sonner";
+import { User, AuthCredential } from "firebase/auth";
+import { AccountConflictError, useAuth } from "@/firebase/Auth";
+import { userStats } from "@/firebase/Firestore";
+import {
+  ProgressSummary,
+  loadProgressSummary,
+} from "@/library/progressSummary";
+
+type EmailFormMode = "signIn" | "signUp" | "link";
+
+/**
+ * A guest tried to link a login that belongs to another account
+ */
+interface AccountConflict {
+  credential: AuthCredential;
+  progress: ProgressSummary; // This device's progress, offered for merging
+}
+
+interface AccountMenuProps {
+  isDarkMode: boolean;
+}
+
+/**
+ * Header button that opens sign-in options, or the profile once signed in
+ */
+const AccountMenu: React.FC<AccountMenuProps> = ({ isDarkMode }) => {
+  const {
+    user,
+    loading,
+    signInAnon,
+    signInWithGoogle,
+    signInWithEmail,
+    signUpWithEmail,
+    linkWithGoogle,
+    linkWithEmail,
+    switchAccount,
+    signOut,
+  } = useAuth();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [isBusy, setIsBusy] = React.useState(false);
+  const [displayName, setDisplayName] = React.useState("");
+  const [email, setEmail] = React.useState("");
+  const [password, setPassword] = React.useState("");
+  const [conflict, setConflict] = React.useState<AccountConflict | null>(null);
+
+  const runAction = async (action: () => Promise<unknown>, success: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      setPassword("");
+      setIsOpen(false);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  /**
+   * Links the guest to a permanent login and carries this device's progress
+   * over. A login that belongs to another account opens the conflict choice.
+   */
+  const upgradeAccount = (link: () => Promise<User>) =>
+    runAction(async () => {
+      try {
+        const user = await link();
+        await userStats.mergeProgress(user.uid, await loadProgressSummary());
+      } catch (error) {
+        if (!(error instanceof AccountConflictError)) throw error;
+        setConflict({
+          credential: error.credential,
+          progress: await loadProgressSummary(),
+        });
+        throw error;
+      }
+    }, "Your progress is saved to your account");
+
+  const resolveConflict = (mergeProgress: boolean) => {
+    if (!conflict) return;
+    runAction(
+      async () => {
+        const user = await switchAccount(conflict.credential);
+        if (mergeProgress) {
+          await userStats.mergeProgress(user.uid, conflict.progress);
+        }
+        setConflict(null);
+      },
+      mergeProgress
+        ? "Switched account and merged progress"
+        : "Switched account"
+    );
+  };
+
+  const submitEmailForm = (mode: EmailFormMode) => {
+    const name = displayName.trim();
+    if (mode === "link") {
+      upgradeAccount(() => linkWithEmail(email, password, name));
+    } else if (mode === "signUp") {
+      runAction(
+        () => signUpWithEmail(email, password, name),
+        "Account created"
+      );
+    } else {
+      runAction(() => signInWithEmail(email, password), "Signed in");
+    }
+  };
+
+  const renderEmailForm = (mode: EmailFormMode) => (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        submitEmailForm(mode);
+      }}
+    >
+      {mode !== "signIn" && (
+        <div>
+          <Label htmlFor="account-name">Display name</Label>
+          <Input
+            id="account-name"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            maxLength={40}
+            required
+            className="mt-1"
+          />
+        </div>
+      )}
+      <div>
+        <Label htmlFor="account-email">Email</Label>
+        <Input
+          id="account-email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          className="mt-1"
+        />
+      </div>
+      <div>
+        <Label htmlFor="account-password">Password</Label>
+        <Input
+          id="account-password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          minLength={6}
+          required
+          className="mt-1"
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isBusy}>
+        {mode === "signIn" ? "Sign In" : "Create Account"}
+      </Button>
+    </form>
+  );
+
+  const renderSignIn = () => (
+    <div className="space-y-4 mt-4">
+      <Button
+        variant="outline"
+        className="w-full"
+        disabled={isBusy}
+        onClick={() => runAction(signInWithGoogle, "Signed in with Google")}
+      >
+        Continue with Google
+      </Button>
+      <Tabs defaultValue="signIn">
+        <TabsList className="grid w-full grid-cols-2 mb-3">
+          <TabsTrigger value="signIn">Sign In</TabsTrigger>
+          <TabsTrigger value="signUp">Create Account</TabsTrigger>
+        </TabsList>
+        <TabsContent value="signIn">{renderEmailForm("signIn")}</TabsContent>
+        <TabsContent value="signUp">{renderEmailForm("signUp")}</TabsContent>
+      </Tabs>
+      <Button
+        variant="ghost"
+        className="w-full"
+        disabled={isBusy}
+        onClick={() => runAction(signInAnon, "Playing as a guest")}
+      >
+        Play as Guest
+      </Button>
+    </div>
+  );
+
+  const renderProfile = () => (
+    <div className="space-y-4 mt-4">
+      <div
+        className={`flex items-center gap-3 p-3 rounded-lg ${
+          isDarkMode ? "bg-gray-700" : "bg-gray-50"
+        }`}
+      >
+        <UserCircle className="w-10 h-10 opacity-75" />
+        <div>
+          <p className="font-medium">
+            {user?.displayName || "Anonymous Player"}
+          </p>
+          <p className="text-sm opacity-75">
+            {user?.isAnonymous ? "Guest account" : user?.email}
+          </p>
+        </div>
+      </div>
+      {user?.isAnonymous && renderUpgrade()}
+      <Button
+        variant="outline"
+        className="w-full"
+        disabled={isBusy}
+        onClick={() => runAction(signOut, "Signed out")}
+      >
+        <LogOut className="w-4 h-4 mr-2" />
+        Sign Out
+      </Button>
+    </div>
+  );
+
+  const renderUpgrade = () => (
+    <div className="space-y-3">
+      <div>
+        <h3 className="font-medium">Keep your progress</h3>
+        <p className="text-sm opacity-75">
+          Guest progress is lost when you sign out. Link a login to keep it,
+          along with everything played on this device.
+        </p>
+      </div>
+      <Button
+        variant="outline"
+        className="w-full"
+        disabled={isBusy}
+        onClick={() => upgradeAccount(linkWithGoogle)}
+      >
+        Link Google Account
+      </Button>
+      {renderEmailForm("link")}
+    </div>
+  );
+
+  const renderConflict = (conflict: AccountConflict) => (
+    <div className="space-y-4 mt-4">
+      <p className="text-sm">
+        That login already has its own FlagQuest account. You can switch to it,
+        bringing this device&apos;s progress along or leaving it behind. Your
+        guest account can&apos;t be recovered after switching.
+      </p>
+      <div
+        className={`p-3 rounded-lg text-sm ${
+          isDarkMode ? "bg-gray-700" : "bg-gray-50"
+        }`}
+      >
+        <p className="font-medium mb-1">This device</p>
+        <p>Best score: {conflict.progress.highScore}</p>
+        <p>Games played: {conflict.progress.gamesPlayed}</p>
+        <p>Achievements: {conflict.progress.achievements.length}</p>
+      </div>
+      <Button
+        className="w-full"
+        disabled={isBusy}
+        onClick={() => resolveConflict(true)}
+      >
+        Switch and Merge Progress
+      </Button>
+      <Button
+        variant="outline"
+        className="w-full"
+        disabled={isBusy}
+        onClick={() => resolveConflict(false)}
+      >
+        Switch Without Merging
+      </Button>
+      <Button
+        variant="ghost"
+        className="w-full"
+        disabled={isBusy}
+        onClick={() => setConflict(null)}
+      >
+        Stay a Guest
+      </Button>
+    </div>
+  );
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        disabled={loading}
+        onClick={() => setIsOpen(true)}
+      >
+        {user ? (
+          <UserCircle className="h-5 w-5" />
+        ) : (
+          <LogIn className="h-5 w-5" />
+        )}
+      </Button>
+      <Dialog
+        open={isOpen}
+        onOpenChange={(open) => {
+          setIsOpen(open);
+          if (!open) setConflict(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {conflict ? "Account Exists" : user ? "Profile" : "Sign In"}
+            </DialogTitle>
+          </DialogHeader>
+          {conflict
+            ? renderConflict(conflict)
+            : user
+            ? renderProfile()
+            : renderSignIn()}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default AccountMenu;
@@ -0,0 +1,94 @@
+import React from "react";
+import { motion } from "framer-motion";
+import { Progress } from "@/components/ui/progress";
+import { Lock, Trophy } from "lucide-react";
+import { achievementDefinitions } from "@/library/achievements";
+import { AchievementRecord } from "@/library/localDatabase";
+
+interface AchievementListProps {
+  records: Record<string, AchievementRecord>;
+  isDarkMode: boolean;
+}
+
+const AchievementList: React.FC<AchievementListProps> = ({
+  records,
+  isDarkMode,
+}) => {
+  const unlockedCount = achievementDefinitions.filter(
+    (definition) => records[definition.id]?.unlocked
+  ).length;
+
+  return (
+    <div className="space-y-3 mt-4">
+      <p className="text-sm opacity-75">
+        {unlockedCount} of {achievementDefinitions.length} unlocked
+      </p>
+      <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-1">
+        {achievementDefinitions.map((definition, index) => {
+          const record = records[definition.id];
+          const unlocked = record?.unlocked ?? false;
+          const progress = unlocked ? definition.goal : record?.progress ?? 0;
+          const isSecret = definition.hidden && !unlocked;
+
+          return (
+            <motion.div
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: index * 0.05 }}
+              key={definition.id}
+              className={`p-3 rounded-lg ${
+                unlocked
+                  ? isDarkMode
+                    ? "bg-green-900/20"
+                    : "bg-green-50"
+                  : isDarkMode
+                  ? "bg-gray-700"
+                  : "bg-gray-50"
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="font-medium">
+                    {isSecret ? "Hidden Achievement" : definition.name}
+                  </h3>
+                  <p className="text-sm opacity-75">
+                    {isSecret
+                      ? "Keep playing to discover it"
+                      : definition.description}
+                  </p>
+                </div>
+                {unlocked ? (
+                  <div className="text-green-500">
+                    <Trophy className="w-5 h-5" />
+                  </div>
+                ) : (
+                  isSecret && <Lock className="w-5 h-5 opacity-50" />
+                )}
+              </div>
+              {unlocked && record?.unlockedAt && (
+                <p className="text-xs opacity-75 mt-1">
+                  Unlocked {new Date(record.unlockedAt).toLocaleDateString()}
+                </p>
+              )}
+              {!unlocked && !isSecret && definition.goal > 1 && (
+                <div className="flex items-center gap-2 mt-2">
+                  <Progress
+                    value={(progress / definition.goal) * 100}
+                    className="h-2"
+                  />
+                  <span className="text-xs opacity-75 whitespace-nowrap">
+                    {definition.unit
+                      ? `${progress}${definition.unit}`
+                      : `${progress} / ${definition.goal}`}
+                  </span>
+                </div>
+              )}
+            </motion.div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AchievementList;
@@ -0,0 +1,331 @@
+import React from "react";
+import { motion } from "framer-motion";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink,
+  Search,
+  Shuffle,
+} from "lucide-react";
+import { Country } from "@/library/gameTypes";
+import { comparisonMetrics } from "@/library/comparisonUtility";
+import { createRandom, generateSeed } from "@/library/random";
+
+interface AtlasProps {
+  countries: Country[];
+  isDarkMode: boolean;
+  onBack: () => void;
+}
+
+const ALL = "All";
+
+const Atlas: React.FC<AtlasProps> = ({ countries, isDarkMode, onBack }) => {
+  const [search, setSearch] = React.useState("");
+  const [continent, setContinent] = React.useState(ALL);
+  const [subregion, setSubregion] = React.useState(ALL);
+  const [selectedCountry, setSelectedCountry] = React.useState<Country | null>(
+    null
+  );
+  const [deck, setDeck] = React.useState<Country[]>([]);
+  const [cardIndex, setCardIndex] = React.useState(0);
+  const [isFlipped, setIsFlipped] = React.useState(false);
+
+  const continents = React.useMemo(
+    () => [ALL, ...new Set(countries.map((c) => c.continent))].sort(),
+    [countries]
+  );
+
+  const subregions = React.useMemo(
+    () =>
+      [
+        ALL,
+        ...new Set(
+          countries
+            .filter((c) => continent === ALL || c.continent === continent)
+            .map((c) => c.subregion)
+        ),
+      ].sort(),
+    [countries, continent]
+  );
+
+  const regionCountries = React.useMemo(
+    () =>
+      countries.filter(
+        (c) =>
+          (continent === ALL || c.continent === continent) &&
+          (subregion === ALL || c.subregion === subregion)
+      ),
+    [countries, continent, subregion]
+  );
+
+  const filteredCountries = React.useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return regionCountries;
+    return regionCountries.filter(
+      (c) =>
+        c.name.toLowerCase().includes(query) ||
+        c.capital.toLowerCase().includes(query)
+    );
+  }, [regionCountries, search]);
+
+  React.useEffect(() => {
+    setDeck(regionCountries);
+    setCardIndex(0);
+    setIsFlipped(false);
+  }, [regionCountries]);
+
+  const showCard = (index: number) => {
+    setIsFlipped(false);
+    setCardIndex((index + deck.length) % deck.length);
+  };
+
+  const shuffleDeck = () => {
+    setDeck((prev) => createRandom(generateSeed()).shuffle(prev));
+    setCardIndex(0);
+    setIsFlipped(false);
+  };
+
+  const selectClass = `h-9 w-full rounded-md border px-2 text-sm ${
+    isDarkMode ? "bg-gray-700 border-gray-600" : "bg-white border-gray-200"
+  }`;
+
+  const renderFilters = () => (
+    <div className="grid grid-cols-2 gap-2 mb-4">
+      <select
+        aria-label="Continent"
+        className={selectClass}
+        value={continent}
+        onChange={(e) => {
+          setContinent(e.target.value);
+          setSubregion(ALL);
+        }}
+      >
+        {continents.map((name) => (
+          <option key={name} value={name}>
+            {name === ALL ? "All continents" : name}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Subregion"
+        className={selectClass}
+        value={subregion}
+        onChange={(e) => setSubregion(e.target.value)}
+      >
+        {subregions.map((name) => (
+          <option key={name} value={name}>
+            {name === ALL ? "All subregions" : name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const renderDetail = (country: Country) => (
+    <div className="space-y-3 text-sm">
+      <div className="aspect-[3/2] overflow-hidden rounded-lg shadow">
+        <Image
+          src={country.flag}
+          alt={`Flag of ${country.name}`}
+          className="w-full h-full object-cover"
+          width={500}
+          height={300}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <p>
+          <span className="opacity-75">Capital:</span> {country.capital}
+        </p>
+        <p>
+          <span className="opacity-75">Currency:</span>{" "}
+          {country.currency ?? "—"}
+        </p>
+        <p>
+          <span className="opacity-75">Continent:</span> {country.continent}
+        </p>
+        <p>
+          <span className="opacity-75">Subregion:</span> {country.subregion}
+        </p>
+        <p>
+          <span className="opacity-75">Area:</span>{" "}
+          {country.totalArea !== undefined
+            ? comparisonMetrics.compareArea.format(country.totalArea)
+            : "—"}
+        </p>
+        <p>
+          <span className="opacity-75">GDP per capita:</span>{" "}
+          {country.gdpPerCapita != null
+            ? comparisonMetrics.compareGdp.format(country.gdpPerCapita)
+            : "—"}
+        </p>
+      </div>
+      {country.fact && <p className="italic">{country.fact}</p>}
+      {country.iconicPlaces && country.iconicPlaces.length > 0 && (
+        <div>
+          <p className="opacity-75 mb-1">Iconic places:</p>
+          <ul className="list-disc list-inside">
+            {country.iconicPlaces.map((place) => (
+              <li key={place}>{place}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {country.wikiLink && (
+        <a
+          href={country.wikiLink}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center text-blue-500 hover:underline"
+        >
+          Read more on Wikipedia
+          <ExternalLink className="w-3 h-3 ml-1" />
+        </a>
+      )}
+    </div>
+  );
+
+  const renderGrid = () => (
+    <>
+      <div className="relative mb-2">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 opacity-50" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search countries or capitals"
+          className="pl-9"
+        />
+      </div>
+      <p className="text-xs opacity-75 mb-3">
+        {filteredCountries.length} countries
+      </p>
+      <div className="grid grid-cols-3 gap-3 max-h-[60vh] overflow-y-auto pr-1">
+        {filteredCountries.map((country) => (
+          <motion.button
+            key={country.name}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className={`p-1 rounded-lg border text-left ${
+              isDarkMode
+                ? "border-gray-600 hover:border-blue-400"
+                : "border-gray-200 hover:border-blue-300"
+            }`}
+            onClick={() => setSelectedCountry(country)}
+          >
+            <div className="aspect-[3/2] overflow-hidden rounded">
+              <Image
+                src={country.flag}
+                alt={`Flag of ${country.name}`}
+                className="w-full h-full object-cover"
+                width={150}
+                height={100}
+              />
+            </div>
+            <p className="text-xs font-medium mt-1 truncate">{country.name}</p>
+          </motion.button>
+        ))}
+      </div>
+    </>
+  );
+
+  const renderFlashcards = () => {
+    const card = deck[cardIndex];
+    if (!card) {
+      return <p className="text-center opacity-75">No countries to study.</p>;
+    }
+
+    return (
+      <div className="space-y-4">
+        <p className="text-center text-sm opacity-75">
+          Card {cardIndex + 1} of {deck.length} · tap to flip
+        </p>
+        <div className="[perspective:1000px]">
+          <motion.div
+            className="relative w-full aspect-[3/2] cursor-pointer [transform-style:preserve-3d]"
+            animate={{ rotateY: isFlipped ? 180 : 0 }}
+            transition={{ duration: 0.5 }}
+            onClick={() => setIsFlipped((prev) => !prev)}
+          >
+            <div className="absolute inset-0 overflow-hidden rounded-lg shadow [backface-visibility:hidden]">
+              <Image
+                src={card.flag}
+                alt="Flag to recall"
+                className="w-full h-full object-cover"
+                width={500}
+                height={300}
+              />
+            </div>
+            <div
+              className={`absolute inset-0 flex flex-col items-center justify-center rounded-lg shadow p-4 text-center [backface-visibility:hidden] [transform:rotateY(180deg)] ${
+                isDarkMode ? "bg-gray-700" : "bg-blue-50"
+              }`}
+            >
+              <p className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-600 to-purple-600">
+                {card.name}
+              </p>
+              <p className="text-sm mt-2">Capital: {card.capital}</p>
+              <p className="text-sm">{card.subregion}</p>
+            </div>
+          </motion.div>
+        </div>
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={() => showCard(cardIndex - 1)}>
+            <ChevronLeft className="w-4 h-4" />
+            Previous
+          </Button>
+          <Button variant="ghost" onClick={shuffleDeck}>
+            <Shuffle className="w-4 h-4" />
+            Shuffle
+          </Button>
+          <Button variant="outline" onClick={() => showCard(cardIndex + 1)}>
+            Next
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center mb-4">
+        <Button variant="ghost" size="sm" onClick={onBack} className="mr-2">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <h2 className="text-xl font-semibold">Atlas</h2>
+      </div>
+      {renderFilters()}
+      <Tabs defaultValue="grid">
+        <TabsList className="grid w-full grid-cols-2 mb-2">
+          <TabsTrigger value="grid">Browse</TabsTrigger>
+          <TabsTrigger value="flashcards">Flashcards</TabsTrigger>
+        </TabsList>
+        <TabsContent value="grid">{renderGrid()}</TabsContent>
+        <TabsContent value="flashcards">{renderFlashcards()}</TabsContent>
+      </Tabs>
+      <Dialog
+        open={selectedCountry !== null}
+        onOpenChange={(open) => !open && setSelectedCountry(null)}
+      >
+        <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedCountry?.name}</DialogTitle>
+          </DialogHeader>
+          {selectedCountry && renderDetail(selectedCountry)}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Atlas;
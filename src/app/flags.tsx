@@ -2,36 +2,62 @@ import React from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import Image from "next/image";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Info } from "lucide-react";
 import confetti from "canvas-confetti";
-
-interface Country {
-  name: string;
-  flag: string;
-  capital: string;
-  continent: string;
-  subregion: string;
-}
+import {
+  Country,
+  QuestionMode,
+  isCapitalMode,
+  isComparisonMode,
+} from "@/library/gameTypes";
+import {
+  ComparisonMetric,
+  comparisonMetrics,
+} from "@/library/comparisonUtility";
 
 interface FlagSelectionProps {
+  questionMode: QuestionMode;
   options: Country[];
   currentQuestion: Country;
+  questionPrompt: string | null;
   onAnswer: (country: Country) => void;
+  onTypedAnswer: (text: string) => boolean;
   selectedAnswer: Country | null;
   isDarkMode: boolean;
   showHint: boolean;
   onShowHint: () => void;
 }
 
+/**
+ * Flag grids get more columns as more options are offered, so up to eight
+ * flags still fit on a phone screen
+ */
+const getFlagGridClass = (optionCount: number): string =>
+  optionCount > 6
+    ? "grid-cols-4 gap-2"
+    : optionCount > 4
+    ? "grid-cols-3 gap-3"
+    : "grid-cols-2 gap-4";
+
 const FlagSelection: React.FC<FlagSelectionProps> = ({
+  questionMode,
   options,
   currentQuestion,
+  questionPrompt,
   onAnswer,
+  onTypedAnswer,
   selectedAnswer,
   isDarkMode,
   showHint,
   onShowHint,
 }) => {
+  const [typedAnswer, setTypedAnswer] = React.useState("");
+
+  React.useEffect(() => {
+    setTypedAnswer("");
+  }, [currentQuestion]);
+
   const handleCorrectAnswer = () => {
     confetti({
       particleCount: 100,
@@ -40,7 +66,30 @@ const FlagSelection: React.FC<FlagSelectionProps> = ({
     });
   };
 
-  return (
+  const getOptionClass = (country: Country) =>
+    selectedAnswer === country
+      ? country === currentQuestion
+        ? "border-green-500 bg-green-50"
+        : "border-red-500 bg-red-50"
+      : isDarkMode
+      ? "border-gray-600 hover:border-blue-400"
+      : "border-gray-200 hover:border-blue-300";
+
+  const handleOptionClick = (country: Country) => {
+    onAnswer(country);
+    if (country === currentQuestion) {
+      handleCorrectAnswer();
+    }
+  };
+
+  const getOptionAnimation = (country: Country) =>
+    selectedAnswer === country && country !== currentQuestion
+      ? {
+          x: [-15, 15, -15, 15, -15, 15, -15, 15, -15, 15, 0],
+        }
+      : {};
+
+  const renderFlagQuestion = () => (
     <>
       <div className="text-center mb-8">
         <h2
@@ -54,7 +103,7 @@ const FlagSelection: React.FC<FlagSelectionProps> = ({
           {currentQuestion?.name}?
         </p>
       </div>
-      <div className="grid grid-cols-2 gap-4 mb-4">
+      <div className={`grid ${getFlagGridClass(options.length)} mb-4`}>
         {options.map((country) => (
           <motion.div
             key={country.name}
@@ -62,28 +111,13 @@ const FlagSelection: React.FC<FlagSelectionProps> = ({
             whileTap={{ scale: 0.95 }}
           >
             <motion.button
-              className={`w-full aspect-[3/2] p-2 rounded-lg border-2 transition-colors duration-300 overflow-hidden ${
-                selectedAnswer === country
-                  ? country === currentQuestion
-                    ? "border-green-500 bg-green-50"
-                    : "border-red-500 bg-red-50"
-                  : isDarkMode
-                  ? "border-gray-600 hover:border-blue-400"
-                  : "border-gray-200 hover:border-blue-300"
-              }`}
-              onClick={() => {
-                onAnswer(country);
-                if (country === currentQuestion) {
-                  handleCorrectAnswer();
-                }
-              }}
-              animate={
-                selectedAnswer === country && country !== currentQuestion
-                  ? {
-                      x: [-15, 15, -15, 15, -15, 15, -15, 15, -15, 15, 0],
-                    }
-                  : {}
-              }
+              className={`w-full aspect-[3/2] ${
+                options.length > 6 ? "p-1" : "p-2"
+              } rounded-lg border-2 transition-colors duration-300 overflow-hidden ${getOptionClass(
+                country
+              )}`}
+              onClick={() => handleOptionClick(country)}
+              animate={getOptionAnimation(country)}
               transition={{ duration: 1.2, ease: "linear" }}
             >
               <Image
@@ -97,43 +131,304 @@ const FlagSelection: React.FC<FlagSelectionProps> = ({
           </motion.div>
         ))}
       </div>
-      <AnimatePresence>
-        {showHint && (
+    </>
+  );
+
+  const renderTextQuestion = (
+    prompt: string,
+    subject: string | null,
+    showFlag: boolean,
+    getLabel: (country: Country) => string
+  ) => (
+    <>
+      <div className="text-center mb-6">
+        <h2
+          className={`text-xl ${
+            isDarkMode ? "text-gray-200" : "text-gray-700"
+          }`}
+        >
+          {prompt}
+        </h2>
+        {subject && (
+          <p
+            className={`${
+              subject.length > 40 ? "text-lg" : "text-2xl"
+            } font-bold mt-2 bg-clip-text text-transparent bg-gradient-to-r from-blue-600 to-purple-600`}
+          >
+            {subject}
+          </p>
+        )}
+        {showFlag && (
+          <div className="mt-4 mx-auto w-2/3 aspect-[3/2] overflow-hidden rounded-lg shadow">
+            <Image
+              src={currentQuestion.flag}
+              alt="Flag to identify"
+              className="w-full h-full object-cover"
+              width={500}
+              height={300}
+            />
+          </div>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        {options.map((country) => (
           <motion.div
-            initial={{ opacity: 0, height: 0 }}
-            animate={{ opacity: 1, height: "auto" }}
-            exit={{ opacity: 0, height: 0 }}
-            className={`mt-4 p-3 rounded-lg ${
-              isDarkMode ? "bg-gray-700" : "bg-blue-50"
+            key={country.name}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <motion.button
+              className={`w-full min-h-12 px-3 py-2 rounded-lg border-2 text-sm font-medium transition-colors duration-300 ${getOptionClass(
+                country
+              )} ${selectedAnswer === country ? "text-gray-900" : ""}`}
+              onClick={() => handleOptionClick(country)}
+              animate={getOptionAnimation(country)}
+              transition={{ duration: 1.2, ease: "linear" }}
+            >
+              {getLabel(country)}
+            </motion.button>
+          </motion.div>
+        ))}
+      </div>
+    </>
+  );
+
+  const handleTypedSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (selectedAnswer !== null || !typedAnswer.trim()) return;
+    if (onTypedAnswer(typedAnswer)) {
+      handleCorrectAnswer();
+    }
+  };
+
+  const renderTypedQuestion = () => {
+    const isCorrect = selectedAnswer?.name === currentQuestion.name;
+    return (
+      <>
+        <div className="text-center mb-6">
+          <h2
+            className={`text-xl ${
+              isDarkMode ? "text-gray-200" : "text-gray-700"
             }`}
           >
-            <p className={isDarkMode ? "text-blue-300" : "text-blue-800"}>
-              Capital: {currentQuestion?.capital}
-            </p>
-            <p className={isDarkMode ? "text-blue-300" : "text-blue-800"}>
-              Continent: {currentQuestion?.continent}
-            </p>
-            <p className={isDarkMode ? "text-blue-300" : "text-blue-800"}>
-              Subregion: {currentQuestion?.subregion}
-            </p>
+            Type the country for this flag
+          </h2>
+          <div className="mt-4 mx-auto w-2/3 aspect-[3/2] overflow-hidden rounded-lg shadow">
+            <Image
+              src={currentQuestion.flag}
+              alt="Flag to identify"
+              className="w-full h-full object-cover"
+              width={500}
+              height={300}
+            />
+          </div>
+        </div>
+        <form className="flex gap-2 mb-4" onSubmit={handleTypedSubmit}>
+          <motion.div
+            className="flex-1"
+            animate={
+              selectedAnswer && !isCorrect
+                ? { x: [-15, 15, -15, 15, -15, 15, 0] }
+                : {}
+            }
+            transition={{ duration: 0.8, ease: "linear" }}
+          >
+            <Input
+              autoFocus
+              value={typedAnswer}
+              onChange={(e) => setTypedAnswer(e.target.value)}
+              disabled={selectedAnswer !== null}
+              placeholder="Country name"
+              className={`h-11 ${
+                selectedAnswer
+                  ? isCorrect
+                    ? "border-green-500"
+                    : "border-red-500"
+                  : ""
+              }`}
+            />
           </motion.div>
+          <Button
+            type="submit"
+            className="h-11"
+            disabled={selectedAnswer !== null || !typedAnswer.trim()}
+          >
+            Submit
+          </Button>
+        </form>
+        {selectedAnswer && (
+          <p
+            className={`text-center font-medium ${
+              isCorrect ? "text-green-500" : "text-red-500"
+            }`}
+          >
+            {isCorrect
+              ? `Correct! ${currentQuestion.name}`
+              : `It was ${currentQuestion.name}`}
+          </p>
         )}
-      </AnimatePresence>
-      <div className="flex justify-center mt-4">
-        <Button
-          variant="ghost"
-          size="sm"
-          className={
-            isDarkMode
-              ? "text-blue-400 hover:text-blue-300 hover:bg-gray-700"
-              : "text-blue-600 hover:text-blue-700 hover:bg-blue-50"
-          }
-          onClick={onShowHint}
+      </>
+    );
+  };
+
+  const renderComparisonQuestion = (metric: ComparisonMetric) => (
+    <>
+      <div className="text-center mb-6">
+        <h2
+          className={`text-xl ${
+            isDarkMode ? "text-gray-200" : "text-gray-700"
+          }`}
         >
-          <Info className="w-4 h-4 mr-2" />
-          Show Hint
-        </Button>
+          {metric.question}
+        </h2>
       </div>
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        {options.map((country) => {
+          const value = metric.getValue(country);
+          return (
+            <motion.div
+              key={country.name}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <motion.button
+                className={`w-full p-2 rounded-lg border-2 transition-colors duration-300 overflow-hidden ${getOptionClass(
+                  country
+                )}`}
+                onClick={() => handleOptionClick(country)}
+                animate={getOptionAnimation(country)}
+                transition={{ duration: 1.2, ease: "linear" }}
+              >
+                <div className="aspect-[3/2] overflow-hidden rounded">
+                  <Image
+                    src={country.flag}
+                    alt={`Flag of ${country.name}`}
+                    className="w-full h-full object-cover"
+                    width={500}
+                    height={300}
+                  />
+                </div>
+                <p
+                  className={`mt-2 text-sm font-medium ${
+                    selectedAnswer === country ? "text-gray-900" : ""
+                  }`}
+                >
+                  {country.name}
+                </p>
+                {selectedAnswer && value !== null && (
+                  <motion.p
+                    initial={{ opacity: 0, y: -5 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className={`text-sm font-bold ${
+                      country === currentQuestion
+                        ? "text-green-600"
+                        : "text-red-500"
+                    }`}
+                  >
+                    {metric.format(value)}
+                  </motion.p>
+                )}
+              </motion.button>
+            </motion.div>
+          );
+        })}
+      </div>
+    </>
+  );
+
+  const renderQuestion = () => {
+    switch (questionMode) {
+      case "name":
+        return renderTextQuestion(
+          "Which country does this flag belong to?",
+          null,
+          true,
+          (country) => country.name
+        );
+      case "capital":
+        return renderTextQuestion(
+          "What is the capital of",
+          `${currentQuestion.name}?`,
+          true,
+          (country) => country.capital
+        );
+      case "typed":
+        return renderTypedQuestion();
+      case "compareArea":
+      case "compareGdp":
+        return renderComparisonQuestion(comparisonMetrics[questionMode]);
+      case "capitalCountry":
+        return renderTextQuestion(
+          "Which country has the capital",
+          `${currentQuestion.capital}?`,
+          selectedAnswer !== null,
+          (country) => country.name
+        );
+      case "landmark":
+        return renderTextQuestion(
+          "Which country is home to",
+          `${questionPrompt}?`,
+          selectedAnswer !== null,
+          (country) => country.name
+        );
+      case "fact":
+        return renderTextQuestion(
+          "Which country is described by this fact?",
+          `“${questionPrompt}”`,
+          selectedAnswer !== null,
+          (country) => country.name
+        );
+      default:
+        return renderFlagQuestion();
+    }
+  };
+
+  return (
+    <>
+      {renderQuestion()}
+      {!isComparisonMode(questionMode) && (
+        <>
+          <AnimatePresence>
+            {showHint && (
+              <motion.div
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: "auto" }}
+                exit={{ opacity: 0, height: 0 }}
+                className={`mt-4 p-3 rounded-lg ${
+                  isDarkMode ? "bg-gray-700" : "bg-blue-50"
+                }`}
+              >
+                {!isCapitalMode(questionMode) && (
+                  <p className={isDarkMode ? "text-blue-300" : "text-blue-800"}>
+                    Capital: {currentQuestion?.capital}
+                  </p>
+                )}
+                <p className={isDarkMode ? "text-blue-300" : "text-blue-800"}>
+                  Continent: {currentQuestion?.continent}
+                </p>
+                <p className={isDarkMode ? "text-blue-300" : "text-blue-800"}>
+                  Subregion: {currentQuestion?.subregion}
+                </p>
+              </motion.div>
+            )}
+          </AnimatePresence>
+          <div className="flex justify-center mt-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              className={
+                isDarkMode
+                  ? "text-blue-400 hover:text-blue-300 hover:bg-gray-700"
+                  : "text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+              }
+              onClick={onShowHint}
+            >
+              <Info className="w-4 h-4 mr-2" />
+              Show Hint
+            </Button>
+          </div>
+        </>
+      )}
     </>
   );
 };
@@ -0,0 +1,119 @@
+import React from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Check, Lightbulb, RotateCcw, X } from "lucide-react";
+import { AnswerRecord, Country } from "@/library/gameTypes";
+
+interface GameReviewProps {
+  answers: AnswerRecord[];
+  isDarkMode: boolean;
+  onRetryMistakes: (countries: Country[]) => void;
+}
+
+const formatResponseTime = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+const GameReview: React.FC<GameReviewProps> = ({
+  answers,
+  isDarkMode,
+  onRetryMistakes,
+}) => {
+  const mistakes = answers.filter((answer) => !answer.correct);
+  const missedCountries = [
+    ...new Map(
+      mistakes.map((answer) => [answer.country.name, answer.country])
+    ).values(),
+  ];
+
+  const renderFlag = (country: Country, label: string) => (
+    <div className="flex-1 min-w-0">
+      <div className="aspect-[3/2] overflow-hidden rounded shadow">
+        {country.flag ? (
+          <Image
+            src={country.flag}
+            alt={`Flag of ${country.name}`}
+            className="w-full h-full object-cover"
+            width={150}
+            height={100}
+          />
+        ) : (
+          // Typed answers that matched no country have no flag to show
+          <div
+            className={`w-full h-full flex items-center justify-center text-xs italic ${
+              isDarkMode ? "bg-gray-600" : "bg-gray-100"
+            }`}
+          >
+            No match
+          </div>
+        )}
+      </div>
+      <p className="text-xs opacity-75 mt-1">{label}</p>
+      <p className="text-sm font-medium truncate">{country.name}</p>
+    </div>
+  );
+
+  const renderAnswer = (answer: AnswerRecord, index: number) => (
+    <div
+      key={index}
+      className={`p-3 rounded-lg text-left ${
+        isDarkMode ? "bg-gray-700" : "bg-gray-50"
+      }`}
+    >
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-2 font-medium">
+          {answer.correct ? (
+            <Check className="w-4 h-4 text-green-500" />
+          ) : (
+            <X className="w-4 h-4 text-red-500" />
+          )}
+          {index + 1}. {answer.country.name}
+        </span>
+        <span className="flex items-center gap-2 opacity-75">
+          {answer.usedHint && (
+            <Lightbulb className="w-4 h-4 text-yellow-500" aria-label="Hint" />
+          )}
+          {formatResponseTime(answer.responseTime)}
+          {answer.score && (
+            <span className="font-medium text-green-600">
+              +{answer.score.total}
+            </span>
+          )}
+        </span>
+      </div>
+      {answer.prompt && (
+        <p className="text-xs italic opacity-75 mt-1">{answer.prompt}</p>
+      )}
+      {!answer.correct && (
+        <div className="flex gap-3 mt-2">
+          {renderFlag(answer.country, "Correct")}
+          {renderFlag(answer.selected, "Your answer")}
+        </div>
+      )}
+    </div>
+  );
+
+  if (answers.length === 0) {
+    return <p className="text-sm opacity-75">No questions answered.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Review</h3>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={missedCountries.length === 0}
+          onClick={() => onRetryMistakes(missedCountries)}
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Retry My Mistakes ({missedCountries.length})
+        </Button>
+      </div>
+      <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+        {answers.map(renderAnswer)}
+      </div>
+    </div>
+  );
+};
+
+export default GameReview;
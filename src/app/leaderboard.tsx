@@ -0,0 +1,193 @@
+import React from "react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Trophy } from "lucide-react";
+import { LeaderboardEntry, leaderboard } from "@/firebase/Firestore";
+import { GameVariant, gameVariants, questionModes } from "@/library/gameTypes";
+import {
+  GameSetup,
+  describeRules,
+  getRulesKey,
+  getSetupRules,
+} from "@/library/gameSetup";
+
+type Scope = "global" | "regional" | "subregional";
+
+interface LeaderboardProps {
+  regions: string[]; // Continents that can be picked
+  getSubregions: (region: string) => string[];
+  defaultRegion: string | null; // Region of the last game, if any
+  defaultSubregion: string | null;
+  setup: GameSetup; // Of the last game; boards only rank the same rules
+  isDarkMode: boolean;
+}
+
+const Leaderboard: React.FC<LeaderboardProps> = ({
+  regions,
+  getSubregions,
+  defaultRegion,
+  defaultSubregion,
+  setup,
+  isDarkMode,
+}) => {
+  const [scope, setScope] = React.useState<Scope>("global");
+  const [variant, setVariant] = React.useState<GameVariant>(setup.variant);
+  const boardSetup = { ...setup, variant };
+  const rulesKey = getRulesKey(boardSetup);
+  const [region, setRegion] = React.useState<string>(
+    defaultRegion ?? regions[0]
+  );
+  const [subregion, setSubregion] = React.useState<string | null>(
+    defaultSubregion
+  );
+  const [entries, setEntries] = React.useState<LeaderboardEntry[]>([]);
+  const [isLoading, setIsLoading] = React.useState<boolean>(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const subregions = getSubregions(region).filter(
+    (name) => name !== "All Regions"
+  );
+  const selectedSubregion: string | undefined =
+    subregion && subregions.includes(subregion) ? subregion : subregions[0];
+
+  React.useEffect(() => {
+    let isCurrent = true;
+    setError(null);
+    if (scope === "subregional" && !selectedSubregion) {
+      setEntries([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+
+    const request =
+      scope === "global"
+        ? leaderboard.getGlobalLeaderboard(rulesKey)
+        : scope === "regional"
+        ? leaderboard.getRegionalLeaderboard(rulesKey, region)
+        : leaderboard.getSubregionalLeaderboard(rulesKey, selectedSubregion!);
+
+    request
+      .then((result) => {
+        if (isCurrent) setEntries(result);
+      })
+      .catch((error) => {
+        console.error("Error loading leaderboard:", error);
+        if (isCurrent) setError("Couldn't load the leaderboard");
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    // A slow response must not overwrite the scope picked after it
+    return () => {
+      isCurrent = false;
+    };
+  }, [scope, rulesKey, region, selectedSubregion]);
+
+  const renderChoices = <T extends string>(
+    choices: T[],
+    selected: T,
+    onSelect: (choice: T) => void,
+    getLabel: (choice: T) => string = (choice) => choice
+  ) => (
+    <div className="flex flex-wrap gap-2 mb-3">
+      {choices.map((choice) => (
+        <Button
+          key={choice}
+          size="sm"
+          variant={choice === selected ? "default" : "outline"}
+          onClick={() => onSelect(choice)}
+        >
+          {getLabel(choice)}
+        </Button>
+      ))}
+    </div>
+  );
+
+  const renderEntries = () => {
+    if (isLoading) {
+      return <p className="text-sm opacity-75 text-center py-6">Loading...</p>;
+    }
+    if (error) {
+      return <p className="text-sm text-red-500 text-center py-6">{error}</p>;
+    }
+    if (entries.length === 0) {
+      return (
+        <p className="text-sm opacity-75 text-center py-6">
+          No scores yet. Be the first!
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        {entries.map((entry, index) => (
+          <motion.div
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: index * 0.1 }}
+            key={entry.gameId}
+            className={`flex justify-between items-center p-3 rounded-lg ${
+              isDarkMode ? "bg-gray-700" : "bg-gray-50"
+            }`}
+          >
+            <div className="flex items-center gap-3">
+              {index < 3 && (
+                <div className="text-yellow-500">
+                  <Trophy className="w-5 h-5" />
+                </div>
+              )}
+              <div>
+                <p className="font-medium">{entry.username}</p>
+                <p className="text-xs opacity-75">
+                  {questionModes[entry.questionMode]}
+                </p>
+              </div>
+            </div>
+            <span className="font-bold">{entry.score}</span>
+          </motion.div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Tabs
+      value={scope}
+      onValueChange={(value) => setScope(value as Scope)}
+      className="mt-4"
+    >
+      <TabsList className="grid w-full grid-cols-3 mb-3">
+        <TabsTrigger value="global">Global</TabsTrigger>
+        <TabsTrigger value="regional">Regional</TabsTrigger>
+        <TabsTrigger value="subregional">Subregional</TabsTrigger>
+      </TabsList>
+      {renderChoices(
+        Object.keys(gameVariants) as GameVariant[],
+        variant,
+        setVariant,
+        (choice) => gameVariants[choice].name
+      )}
+      <p className="text-xs opacity-75 mb-3">
+        {questionModes[boardSetup.questionMode]} ·{" "}
+        {describeRules(getSetupRules(boardSetup))} · {boardSetup.optionCount}{" "}
+        options · {boardSetup.questionCount ?? "All"} questions
+      </p>
+      <TabsContent value="global">{renderEntries()}</TabsContent>
+      <TabsContent value="regional">
+        {renderChoices(regions, region, setRegion)}
+        {renderEntries()}
+      </TabsContent>
+      <TabsContent value="subregional">
+        {renderChoices(regions, region, setRegion)}
+        {selectedSubregion &&
+          renderChoices(subregions, selectedSubregion, setSubregion)}
+        {renderEntries()}
+      </TabsContent>
+    </Tabs>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,101 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { GraduationCap } from "lucide-react";
+import { Country } from "@/library/gameTypes";
+import {
+  CardStatus,
+  LearningProgress as Progress,
+  getCardStatus,
+} from "@/library/spacedRepetition";
+
+interface LearningProgressProps {
+  countries: Country[];
+  progress: Progress;
+  isDarkMode: boolean;
+  onLearn: (region: string | null) => void;
+}
+
+const statusColors: Record<CardStatus, string> = {
+  new: "bg-gray-300",
+  learning: "bg-yellow-400",
+  mastered: "bg-green-500",
+};
+
+const LearningProgress: React.FC<LearningProgressProps> = ({
+  countries,
+  progress,
+  isDarkMode,
+  onLearn,
+}) => {
+  const countStatuses = (pool: Country[]) => {
+    const counts: Record<CardStatus, number> = {
+      new: 0,
+      learning: 0,
+      mastered: 0,
+    };
+    pool.forEach((country) => {
+      counts[getCardStatus(progress[country.name])]++;
+    });
+    return counts;
+  };
+
+  const continents = [...new Set(countries.map((c) => c.continent))].sort();
+  const rows: Array<{ label: string; region: string | null; pool: Country[] }> =
+    [
+      { label: "World", region: null, pool: countries },
+      ...continents.map((continent) => ({
+        label: continent,
+        region: continent,
+        pool: countries.filter((c) => c.continent === continent),
+      })),
+    ];
+
+  return (
+    <div className="space-y-3 mt-4">
+      <div className="flex gap-4 text-xs">
+        {(Object.keys(statusColors) as CardStatus[]).map((status) => (
+          <span key={status} className="flex items-center gap-1 capitalize">
+            <span className={`w-3 h-3 rounded-sm ${statusColors[status]}`} />
+            {status}
+          </span>
+        ))}
+      </div>
+      {rows.map(({ label, region, pool }) => {
+        const counts = countStatuses(pool);
+        return (
+          <div
+            key={label}
+            className={`p-3 rounded-lg ${
+              isDarkMode ? "bg-gray-700" : "bg-gray-50"
+            }`}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <div>
+                <h3 className="font-medium">{label}</h3>
+                <p className="text-xs opacity-75">
+                  {counts.new} new · {counts.learning} learning ·{" "}
+                  {counts.mastered} mastered
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => onLearn(region)}>
+                <GraduationCap className="w-4 h-4 mr-1" />
+                Learn
+              </Button>
+            </div>
+            <div className="flex h-2 rounded-full overflow-hidden">
+              {(Object.keys(statusColors) as CardStatus[]).map((status) => (
+                <div
+                  key={status}
+                  className={statusColors[status]}
+                  style={{ width: `${(counts[status] / pool.length) * 100}%` }}
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LearningProgress;
@@ -9,6 +9,8 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { motion } from "framer-motion";
 import {
   Clock,
@@ -21,22 +23,120 @@ import {
   Heart,
   Volume2,
   VolumeX,
+  CalendarDays,
+  GraduationCap,
+  BookOpen,
+  BarChart3,
+  Pause,
+  Play,
+  SlidersHorizontal,
+  Share2,
 } from "lucide-react";
 import { Toaster, toast } from "sonner";
 import confetti from "canvas-confetti";
 import FlagSelection from "./flags";
+import LearningProgress from "./learningProgress";
+import Atlas from "./atlas";
+import GameReview from "./gameReview";
+import StatsDashboard from "./statsDashboard";
+import AchievementList from "./achievementList";
+import ScoreBreakdown from "./scoreBreakdown";
+import Leaderboard from "./leaderboard";
+import AccountMenu from "./accountMenu";
+import SyncStatus from "./syncStatus";
 import { useAudioControl } from "@/library/audioControlUtility";
-
-interface Country {
-  name: string;
-  capital: string;
-  continent: string;
-  subregion: string;
-  flag: string;
-}
-
-interface GameSettings {
-  timeLimit: number;
+import {
+  Country,
+  QuestionMode,
+  questionModes,
+  GameVariant,
+  gameVariants,
+  Difficulty,
+  difficulties,
+} from "@/library/gameTypes";
+import {
+  HighScores,
+  emptyHighScores,
+  getHighScore,
+  loadHighScores,
+  saveHighScores,
+} from "@/library/highScores";
+import { generateSeed } from "@/library/random";
+import {
+  DAILY_QUESTION_COUNT,
+  DailyResult,
+  getDailyKey,
+  getDailySeed,
+  getDailyStreak,
+  loadDailyResults,
+  saveDailyResult,
+} from "@/library/dailyChallenge";
+import {
+  LearningProgress as LearningProgressState,
+  getCardStatus,
+  loadLearningProgress,
+  saveLearningProgress,
+} from "@/library/spacedRepetition";
+import {
+  AnswerEvent,
+  loadAnswerHistory,
+  saveAnswerEvent,
+} from "@/library/answerHistory";
+import {
+  EngineSettings,
+  GameEvent,
+  GameSnapshot,
+  createGame,
+} from "@/library/gameEngine";
+import {
+  RecordedGame,
+  getFinishedAt,
+  getRankedSettings,
+  recordGame,
+} from "@/library/gameLog";
+import { mergeCountryData } from "@/library/countryData";
+import {
+  AchievementContext,
+  evaluateAchievements,
+} from "@/library/achievements";
+import {
+  AchievementRecord,
+  exportProgress,
+  importProgress,
+  loadAchievementRecords,
+  saveAchievementRecords,
+  saveGame,
+} from "@/library/localDatabase";
+import {
+  GameSetup,
+  LIVES_CHOICES,
+  OPTION_COUNT_CHOICES,
+  QUESTION_COUNT_CHOICES,
+  TIME_LIMIT_CHOICES,
+  decodePreset,
+  defaultGameSetup,
+  describeRules,
+  encodePreset,
+  formatLives,
+  formatTimeLimit,
+  getRulesKey,
+  getSetupRules,
+  loadGameSetup,
+  pickGameSetup,
+  saveGameSetup,
+} from "@/library/gameSetup";
+import { auth } from "@/firebase/firebase";
+import { useAuth } from "@/firebase/Auth";
+import { SyncItem, queueResults, syncResults } from "@/firebase/syncQueue";
+
+interface GameSettings extends GameSetup {
+  gameId: string; // Unique per game started, groups the answer history
+  seed: string;
+  dailyKey: string | null; // UTC date of the daily challenge being played
+  isLearning: boolean; // Spaced-repetition session instead of a scored game
+  questionPool: string[] | null; // Only ask these countries, e.g. past mistakes
+  timeLimit: number | null; // Clock of the game in progress, null for none
+  playedMode: QuestionMode; // Mode of the game in progress, not always the chosen one
   selectedRegion: string | null;
   selectedSubregion: string | null;
   isDarkMode: boolean;
@@ -44,26 +144,18 @@ interface GameSettings {
 }
 
 interface GameState {
-  phase: "setup" | "playing" | "gameover" | "paused";
+  phase: "setup" | "playing" | "gameover" | "paused" | "atlas";
   setupStep: "region" | "subregion";
-  score: number;
-  timeRemaining: number;
-  showHint: boolean;
-  isCorrect: boolean | null;
-  selectedAnswer: Country | null;
-  askedQuestions: Set<string>;
-}
-
-interface Achievement {
-  id: string;
-  name: string;
-  description: string;
-  unlocked: boolean;
 }
 
 const FlagQuest: React.FC = () => {
-  const { playAudio, playBackgroundMusic, stopBackgroundMusic } =
-    useAudioControl();
+  const {
+    playAudio,
+    playBackgroundMusic,
+    stopBackgroundMusic,
+    pauseBackgroundMusic,
+    resumeBackgroundMusic,
+  } = useAudioControl();
 
   const correctAudioRef = React.useRef(new Audio("/sounds/correct.mp3"));
   const wrongAudioRef = React.useRef(new Audio("/sounds/wrong.mp3"));
@@ -73,7 +165,14 @@ const FlagQuest: React.FC = () => {
   const [isBgmPlaying, setIsBgmPlaying] = React.useState(false);
 
   const [gameSettings, setGameSettings] = React.useState<GameSettings>({
+    ...defaultGameSetup,
+    gameId: "",
+    seed: "",
+    dailyKey: null,
+    isLearning: false,
+    questionPool: null,
     timeLimit: 180,
+    playedMode: defaultGameSetup.questionMode,
     selectedRegion: null,
     selectedSubregion: null,
     isDarkMode: false,
@@ -83,54 +182,41 @@ const FlagQuest: React.FC = () => {
   const [gameState, setGameState] = React.useState<GameState>({
     phase: "setup",
     setupStep: "region",
-    score: 0,
-    timeRemaining: 180,
-    showHint: false,
-    isCorrect: null,
-    selectedAnswer: null,
-    askedQuestions: new Set<string>(),
   });
 
   const [countryData, setCountryData] = React.useState<Country[]>([]);
-  const [currentQuestion, setCurrentQuestion] = React.useState<Country | null>(
-    null
-  );
-  const [options, setOptions] = React.useState<Country[]>([]);
-  const [highScore, setHighScore] = React.useState<number>(0);
-  const [streak, setStreak] = React.useState<number>(0);
-  const [lives, setLives] = React.useState<number>(3);
+  const gameRef = React.useRef<RecordedGame | null>(null);
+  const [snapshot, setSnapshot] = React.useState<GameSnapshot | null>(null);
+  const handleGameEventRef = React.useRef<(event: GameEvent) => void>(() => {});
+  const [seedInput, setSeedInput] = React.useState<string>("");
+  const [learningProgress, setLearningProgress] =
+    React.useState<LearningProgressState>({});
+  const [showLearning, setShowLearning] = React.useState<boolean>(false);
+  const [answerHistory, setAnswerHistory] = React.useState<AnswerEvent[]>([]);
+  const [showStats, setShowStats] = React.useState<boolean>(false);
+  const [showAdvanced, setShowAdvanced] = React.useState<boolean>(false);
+  const [dailyResults, setDailyResults] = React.useState<
+    Record<string, DailyResult>
+  >({});
+  const [highScores, setHighScores] =
+    React.useState<HighScores>(emptyHighScores);
   const [showLeaderboard, setShowLeaderboard] = React.useState<boolean>(false);
   const [showAchievements, setShowAchievements] =
     React.useState<boolean>(false);
 
-  const [achievements, setAchievements] = React.useState<Achievement[]>([
-    {
-      id: "first_win",
-      name: "First Victory",
-      description: "Complete your first game",
-      unlocked: false,
-    },
-    {
-      id: "perfect_streak",
-      name: "Perfect Streak",
-      description: "Get 10 correct answers in a row",
-      unlocked: false,
-    },
-    {
-      id: "speed_demon",
-      name: "Speed Demon",
-      description: "Answer correctly in under 2 seconds",
-      unlocked: false,
-    },
-  ]);
-
-  const [leaderboard, setLeaderboard] = React.useState<
-    Array<{ name: string; score: number }>
-  >([
-    { name: "Player 1", score: 120 },
-    { name: "Player 2", score: 100 },
-    { name: "Player 3", score: 80 },
-  ]);
+  const [achievementRecords, setAchievementRecords] = React.useState<
+    Record<string, AchievementRecord>
+  >({});
+  // Engine events can arrive twice in one render, e.g. a losing answer
+  // followed by game over, so unlocks are checked against this copy
+  const achievementRecordsRef = React.useRef(achievementRecords);
+  // Game whose results were last queued for upload, so the game over effect
+  // running again doesn't queue them twice
+  const queuedGameRef = React.useRef<string | null>(null);
+  // Game last saved to the local history, for the same reason
+  const savedGameRef = React.useRef<string | null>(null);
+  const [pendingResults, setPendingResults] = React.useState<SyncItem[]>([]);
+  const { user } = useAuth();
 
   const regions: Record<string, string | null> = {
     World: null,
@@ -142,51 +228,135 @@ const FlagQuest: React.FC = () => {
     Oceania: "Oceania",
   };
 
+  const loadSavedProgress = React.useCallback(async () => {
+    const [scores, daily, learning, history, achievementRecords, setup] =
+      await Promise.all([
+        loadHighScores(),
+        loadDailyResults(),
+        loadLearningProgress(),
+        loadAnswerHistory(),
+        loadAchievementRecords().catch((error) => {
+          console.error("Error loading achievements:", error);
+          return [];
+        }),
+        loadGameSetup(),
+      ]);
+
+    if (setup) setGameSettings((prev) => ({ ...prev, ...setup }));
+    setHighScores(scores);
+    setDailyResults(daily);
+    setLearningProgress(learning);
+    setAnswerHistory(history);
+    const records = Object.fromEntries(
+      achievementRecords.map((record) => [record.id, record])
+    );
+    achievementRecordsRef.current = records;
+    setAchievementRecords(records);
+  }, []);
+
   React.useEffect(() => {
     const fetchData = async () => {
       try {
-        const response = await fetch("/countries.json");
-        const data = await response.json();
-        setCountryData(data);
+        const [response, responseV2, responseSimilarity] = await Promise.all([
+          fetch("/countries.json"),
+          fetch("/countries_v2.json"),
+          fetch("/flag-similarity.json"),
+        ]);
+        const data: Country[] = await response.json();
+        const dataV2: Country[] = await responseV2.json();
+        const similarity: Record<string, string[]> =
+          await responseSimilarity.json();
+
+        setCountryData(mergeCountryData(data, dataV2, similarity));
       } catch (error) {
         console.error("Error loading country data:", error);
         toast.error("Failed to load country data");
       }
     };
-    fetchData();
+    // A shared preset link wins over the last setup used on this device
+    const applyPresetFromUrl = () => {
+      const params = new URLSearchParams(window.location.search);
+      const encoded = params.get("preset");
+      if (!encoded) return;
+
+      const preset = decodePreset(encoded);
+      params.delete("preset");
+      const query = params.toString();
+      window.history.replaceState(
+        null,
+        "",
+        `${window.location.pathname}${query ? `?${query}` : ""}`
+      );
+      if (!preset) {
+        toast.error("This preset link is invalid");
+        return;
+      }
 
-    const savedHighScore = localStorage.getItem("flagquest-highscore");
-    if (savedHighScore) {
-      setHighScore(parseInt(savedHighScore));
-    }
+      setGameSettings((prev) => ({ ...prev, ...pickGameSetup(preset) }));
+      if (preset.seed) setSeedInput(preset.seed);
+      toast.success("Preset loaded");
+    };
 
-    const savedAchievements = localStorage.getItem("flagquest-achievements");
-    if (savedAchievements) {
-      setAchievements(JSON.parse(savedAchievements));
-    }
+    fetchData();
+    loadSavedProgress().then(applyPresetFromUrl);
 
     return () => {
       stopBackgroundMusic();
       setIsBgmPlaying(false);
     };
-  }, [stopBackgroundMusic]);
+  }, [stopBackgroundMusic, loadSavedProgress]);
 
+  // The engine keeps time from timestamps, so ticking more often than once
+  // a second only makes the clock and feedback delay more precise
   React.useEffect(() => {
     if (gameState.phase !== "playing") return;
 
-    const timer = setInterval(() => {
-      setGameState((prev) => {
-        if (prev.timeRemaining <= 1) {
-          handleGameOver();
-          return { ...prev, phase: "gameover", timeRemaining: 0 };
-        }
-        return { ...prev, timeRemaining: prev.timeRemaining - 1 };
-      });
-    }, 1000);
-
+    const timer = setInterval(() => gameRef.current?.tick(Date.now()), 250);
     return () => clearInterval(timer);
   }, [gameState.phase]);
 
+  // Auto pauses come from leaving the tab or window, and don't count towards
+  // the pause limits of ranked games
+  const pauseGame = React.useCallback(
+    (auto = false) => {
+      gameRef.current?.pause(Date.now(), auto);
+      pauseBackgroundMusic();
+      setGameState((prev) =>
+        prev.phase === "playing" ? { ...prev, phase: "paused" } : prev
+      );
+    },
+    [pauseBackgroundMusic]
+  );
+
+  const resumeGame = () => {
+    gameRef.current?.resume(Date.now());
+    setGameState((prev) => ({ ...prev, phase: "playing" }));
+    if (!gameSettings.soundEnabled) return;
+    // Sound may have been switched on while paused
+    if (isBgmPlaying) {
+      resumeBackgroundMusic();
+    } else {
+      playBackgroundMusic(backgroundMusicRef.current, 0.5, true);
+      setIsBgmPlaying(true);
+    }
+  };
+
+  // Leaving the tab or window pauses the game; players resume it themselves
+  React.useEffect(() => {
+    if (gameState.phase !== "playing") return;
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) pauseGame(true);
+    };
+    const handleBlur = () => pauseGame(true);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("blur", handleBlur);
+    };
+  }, [gameState.phase, pauseGame]);
+
   const getSubregions = React.useCallback(
     (selectedRegion: string | null): string[] => {
       if (!selectedRegion) return ["All Regions"];
@@ -207,170 +377,25 @@ const FlagQuest: React.FC = () => {
     [countryData]
   );
 
-  const getRemainingCountries = React.useCallback(
-    (region: string | null, subregion: string | null): Country[] => {
-      let filteredCountries = countryData.filter(
-        (country) => !gameState.askedQuestions.has(country.name)
-      );
-
-      if (region) {
-        filteredCountries = filteredCountries.filter(
-          (c) => c.continent === region
-        );
-      }
-
-      if (subregion && subregion !== "All Regions") {
-        filteredCountries = filteredCountries.filter(
-          (c) => c.subregion === subregion
-        );
-      }
-
-      return filteredCountries;
-    },
-    [countryData, gameState.askedQuestions]
-  );
-
-  const getRandomOptions = React.useCallback(
-    (correctAnswer: Country, count: number): Country[] => {
-      const options: Country[] = [correctAnswer];
-      const usedNames = new Set<string>([correctAnswer.name]);
-
-      const sameRegionOptions = countryData
-        .filter(
-          (c) =>
-            c.continent === correctAnswer.continent && !usedNames.has(c.name)
-        )
-        .sort(() => Math.random() - 0.5);
-
-      const otherRegionOptions = countryData
-        .filter(
-          (c) =>
-            c.continent !== correctAnswer.continent && !usedNames.has(c.name)
-        )
-        .sort(() => Math.random() - 0.5);
-
-      const allOptions = [...sameRegionOptions, ...otherRegionOptions];
-
-      while (options.length < count && allOptions.length > 0) {
-        const nextOption = allOptions.pop()!;
-        if (!usedNames.has(nextOption.name)) {
-          options.push(nextOption);
-          usedNames.add(nextOption.name);
-        }
-      }
-
-      return options.sort(() => Math.random() - 0.5);
-    },
-    [countryData]
-  );
-
-  const setupQuestion = React.useCallback(() => {
-    const remainingCountries = getRemainingCountries(
-      gameSettings.selectedRegion,
-      gameSettings.selectedSubregion
+  const trackAchievements = (context: AchievementContext) => {
+    const { changed, unlocked } = evaluateAchievements(
+      achievementRecordsRef.current,
+      context
     );
+    if (changed.length === 0) return;
 
-    if (remainingCountries.length === 0) {
-      handleGameOver();
-      return;
-    }
-
-    const correctAnswer =
-      remainingCountries[Math.floor(Math.random() * remainingCountries.length)];
-
-    const questionOptions = getRandomOptions(correctAnswer, 4);
-
-    setCurrentQuestion(correctAnswer);
-    setOptions(questionOptions);
-    setGameState((prev) => ({
-      ...prev,
-      showHint: false,
-      isCorrect: null,
-      selectedAnswer: null,
-    }));
-  }, [
-    gameSettings.selectedRegion,
-    gameSettings.selectedSubregion,
-    getRemainingCountries,
-    getRandomOptions,
-  ]);
-
-  const handleAnswer = React.useCallback(
-    (country: Country) => {
-      if (gameState.selectedAnswer !== null || !currentQuestion) return;
-
-      const correct = country.name === currentQuestion.name;
-
-      if (correct && gameSettings.soundEnabled) {
-        playAudio(correctAudioRef.current, { volume: 1, priority: true });
-        setStreak((prev) => prev + 1);
-        if (
-          streak + 1 >= 10 &&
-          !achievements.find((a) => a.id === "perfect_streak")?.unlocked
-        ) {
-          unlockAchievement("perfect_streak");
-        }
-        if (streak > 0 && streak % 5 === 0) {
-          confetti({
-            particleCount: 100,
-            spread: 70,
-            origin: { y: 0.6 },
-          });
-          toast.success("🔥 Hot Streak!");
-        }
-      } else if (!correct && gameSettings.soundEnabled) {
-        playAudio(wrongAudioRef.current, { volume: 1, priority: true });
-        setStreak(0);
-        setLives((prev) => {
-          const newLives = prev - 1;
-          if (newLives === 0) {
-            handleGameOver();
-          }
-          return newLives;
-        });
-      }
-
-      setGameState((prev) => ({
-        ...prev,
-        selectedAnswer: country,
-        isCorrect: correct,
-        score: correct ? prev.score + calculateScore(streak) : prev.score,
-        askedQuestions: new Set([...prev.askedQuestions, currentQuestion.name]),
-      }));
-
-      setTimeout(() => {
-        if (lives > 1 || correct) {
-          setupQuestion();
-        }
-      }, 1500);
-    },
-    [
-      currentQuestion,
-      gameState.selectedAnswer,
-      streak,
-      lives,
-      playAudio,
-      achievements,
-      setupQuestion,
-      gameSettings.soundEnabled,
-    ]
-  );
-
-  const calculateScore = (currentStreak: number): number => {
-    const baseScore = 1;
-    const streakBonus = Math.floor(currentStreak / 3);
-    return baseScore + streakBonus;
-  };
-
-  const unlockAchievement = (achievementId: string) => {
-    setAchievements((prev) => {
-      const updated = prev.map((a) =>
-        a.id === achievementId ? { ...a, unlocked: true } : a
-      );
-      localStorage.setItem("flagquest-achievements", JSON.stringify(updated));
-      return updated;
-    });
-    toast.success("🏆 New Achievement Unlocked!");
+    const records = {
+      ...achievementRecordsRef.current,
+      ...Object.fromEntries(changed.map((record) => [record.id, record])),
+    };
+    achievementRecordsRef.current = records;
+    setAchievementRecords(records);
+    saveAchievementRecords(changed).catch((error) =>
+      console.error("Error saving achievements:", error)
+    );
+    unlocked.forEach((definition) =>
+      toast.success(`🏆 Achievement Unlocked: ${definition.name}`)
+    );
   };
 
   const handleGameOver = React.useCallback(() => {
@@ -379,55 +404,406 @@ const FlagQuest: React.FC = () => {
     }
     stopBackgroundMusic();
     setIsBgmPlaying(false);
+    setGameState((prev) => ({ ...prev, phase: "gameover" }));
+  }, [playAudio, stopBackgroundMusic, gameSettings.soundEnabled]);
+
+  const handleGameEvent = (event: GameEvent) => {
+    const game = gameRef.current;
+    if (!game) return;
+    const current = game.getSnapshot();
+    setSnapshot(current);
+
+    if (event.type === "gameOver") {
+      trackAchievements({
+        event,
+        game: current,
+        history: answerHistory,
+        countries: countryData,
+        now: Date.now(),
+      });
+      handleGameOver();
+      return;
+    }
+    if (event.type !== "answer") return;
 
-    if (!achievements.find((a) => a.id === "first_win")?.unlocked) {
-      unlockAchievement("first_win");
+    const { record, streak } = event;
+    if (gameSettings.soundEnabled) {
+      playAudio(
+        record.correct ? correctAudioRef.current : wrongAudioRef.current,
+        { volume: 1, priority: true }
+      );
     }
-    if (gameState.score > highScore) {
-      setHighScore(gameState.score);
-      localStorage.setItem("flagquest-highscore", gameState.score.toString());
-      toast.success("🏆 New High Score!");
+
+    if (record.correct && streak % 5 === 0) {
+      confetti({
+        particleCount: 100,
+        spread: 70,
+        origin: { y: 0.6 },
+      });
+      toast.success("🔥 Hot Streak!");
     }
-    setGameState((prev) => ({ ...prev, phase: "gameover" }));
-  }, [
-    playAudio,
-    stopBackgroundMusic,
-    achievements,
-    gameState.score,
-    highScore,
-    gameSettings.soundEnabled,
-  ]);
+
+    const { learningProgress } = current;
+    if (learningProgress) {
+      setLearningProgress(learningProgress);
+      saveLearningProgress(learningProgress);
+    }
+
+    const answerEvent: AnswerEvent = {
+      gameId: gameSettings.gameId,
+      timestamp: Date.now(),
+      questionMode: gameSettings.playedMode,
+      country: record.country.name,
+      continent: record.country.continent,
+      subregion: record.country.subregion,
+      selected: record.selected.name,
+      correct: record.correct,
+      responseTime: record.responseTime,
+    };
+    setAnswerHistory((prev) => [...prev, answerEvent]);
+    saveAnswerEvent(answerEvent);
+
+    trackAchievements({
+      event,
+      game: current,
+      history: [...answerHistory, answerEvent],
+      countries: countryData,
+      now: Date.now(),
+    });
+  };
+
+  // Engine events arrive outside React, so they go through a ref that always
+  // holds the handler from the latest render
+  React.useEffect(() => {
+    handleGameEventRef.current = handleGameEvent;
+  });
 
   const startGame = React.useCallback(
-    (region: string | null, subregion: string | null, time: number) => {
+    (
+      region: string | null,
+      subregion: string | null,
+      {
+        dailyKey = null,
+        learning = false,
+        pool = null,
+      }: {
+        dailyKey?: string | null;
+        learning?: boolean;
+        pool?: string[] | null;
+      } = {}
+    ) => {
+      // Daily challenges run against the clock through the whole set, while
+      // learning sessions and mistake retries go on until they are done
+      const isRegularGame = !dailyKey && !learning && !pool;
+      const setup: GameSetup = {
+        questionMode: gameSettings.questionMode,
+        difficulty: gameSettings.difficulty,
+        variant: gameSettings.variant,
+        customTimeLimit: gameSettings.customTimeLimit,
+        customLives: gameSettings.customLives,
+        optionCount: gameSettings.optionCount,
+        questionCount: gameSettings.questionCount,
+      };
+      const rules = dailyKey
+        ? gameVariants.timeAttack
+        : isRegularGame
+        ? getSetupRules(setup)
+        : gameVariants.endless;
+      if (isRegularGame) saveGameSetup(setup);
+      const seed = dailyKey
+        ? getDailySeed(dailyKey)
+        : seedInput.trim() || generateSeed();
+      const questionMode = dailyKey
+        ? "flag"
+        : learning &&
+          !["flag", "name", "typed"].includes(gameSettings.questionMode)
+        ? "name"
+        : gameSettings.questionMode;
+
+      if (dailyKey) {
+        // Record the attempt up front so the challenge can't be replayed
+        setDailyResults((prev) =>
+          saveDailyResult(prev, dailyKey, {
+            score: 0,
+            correct: 0,
+            total: DAILY_QUESTION_COUNT,
+            completed: false,
+          })
+        );
+      }
+
       setGameSettings((prev) => ({
         ...prev,
+        gameId: `${Date.now().toString(36)}-${seed}`,
+        seed,
+        dailyKey,
+        isLearning: learning,
+        questionPool: pool,
+        playedMode: questionMode,
         selectedRegion: region,
         selectedSubregion: subregion,
-        timeLimit: time,
-      }));
-      setGameState((prev) => ({
-        ...prev,
-        phase: "playing",
-        score: 0,
-        timeRemaining: time,
-        askedQuestions: new Set<string>(),
+        timeLimit: rules.timeLimit,
       }));
+      setGameState((prev) => ({ ...prev, phase: "playing" }));
+
+      // Regular games are set up exactly like the server replays them
+      const engineSettings: EngineSettings = isRegularGame
+        ? getRankedSettings(countryData, { setup, region, subregion })
+        : {
+            countries: countryData,
+            questionMode,
+            // Everyone gets the same daily challenge, whatever their setup
+            difficulty: dailyKey
+              ? defaultGameSetup.difficulty
+              : gameSettings.difficulty,
+            timeLimit: rules.timeLimit,
+            lives: rules.lives,
+            optionCount: dailyKey
+              ? defaultGameSetup.optionCount
+              : gameSettings.optionCount,
+            questionCount: null,
+            region,
+            subregion,
+            dailyKey,
+            questionPool: pool,
+            learningProgress: learning ? learningProgress : null,
+          };
+      const game = recordGame(createGame(engineSettings, seed));
+      game.subscribe((event) => handleGameEventRef.current(event));
+      gameRef.current = game;
+      setSnapshot(game.getSnapshot());
+      game.tick(Date.now());
 
       if (gameSettings.soundEnabled && !isBgmPlaying) {
         playBackgroundMusic(backgroundMusicRef.current, 0.5, true);
         setIsBgmPlaying(true);
       }
-      setupQuestion();
     },
     [
-      setupQuestion,
+      seedInput,
       playBackgroundMusic,
+      countryData,
+      learningProgress,
+      gameSettings.variant,
+      gameSettings.questionMode,
+      gameSettings.difficulty,
+      gameSettings.customTimeLimit,
+      gameSettings.customLives,
+      gameSettings.optionCount,
+      gameSettings.questionCount,
       gameSettings.soundEnabled,
       isBgmPlaying,
     ]
   );
 
+  React.useEffect(() => {
+    if (
+      gameState.phase !== "gameover" ||
+      !snapshot ||
+      gameSettings.dailyKey ||
+      gameSettings.isLearning ||
+      gameSettings.questionPool
+    ) {
+      return;
+    }
+
+    const rulesKey = getRulesKey(pickGameSetup(gameSettings));
+    if (snapshot.score > (highScores[rulesKey] ?? 0)) {
+      const updated = { ...highScores, [rulesKey]: snapshot.score };
+      setHighScores(updated);
+      saveHighScores(updated);
+      toast.success("🏆 New High Score!");
+    }
+  }, [gameState.phase, snapshot, gameSettings, highScores]);
+
+  const syncPendingResults = React.useCallback(
+    (options?: { force?: boolean }) =>
+      syncResults({
+        ...options,
+        // Rejected results are dropped, since they'd only be rejected again
+        onRejected: (item, error) =>
+          toast.error(
+            item.kind === "leaderboard"
+              ? `Your ${item.submission.score}-point game wasn't ranked: ${error.message}`
+              : `Your ${item.result.score}-point game couldn't be added to your stats: ${error.message}`
+          ),
+      })
+        .then(setPendingResults)
+        .catch((error) => console.error("Error syncing results:", error)),
+    []
+  );
+
+  // Results are queued locally first and uploaded when possible, so games
+  // finished offline still reach the leaderboard and account stats. Only
+  // regular games are ranked, like high scores.
+  React.useEffect(() => {
+    if (
+      gameState.phase !== "gameover" ||
+      !snapshot ||
+      queuedGameRef.current === gameSettings.gameId
+    ) {
+      return;
+    }
+    queuedGameRef.current = gameSettings.gameId;
+
+    const { gameId } = gameSettings;
+    const user = auth.currentUser;
+    const entries = gameRef.current?.getEntries() ?? [];
+    const now = Date.now();
+    const isRanked =
+      !gameSettings.dailyKey &&
+      !gameSettings.isLearning &&
+      !gameSettings.questionPool;
+
+    queueResults(
+      [
+        ...(isRanked && snapshot.score > 0
+          ? [
+              {
+                kind: "leaderboard" as const,
+                gameId,
+                submission: {
+                  gameId,
+                  username: user?.displayName || "Anonymous Player",
+                  score: snapshot.score,
+                  log: {
+                    seed: gameSettings.seed,
+                    setup: pickGameSetup(gameSettings),
+                    region: gameSettings.selectedRegion,
+                    subregion: gameSettings.selectedSubregion,
+                    entries,
+                  },
+                },
+              },
+            ]
+          : []),
+        ...(user
+          ? [
+              {
+                kind: "stats" as const,
+                gameId,
+                userId: user.uid,
+                isGuest: user.isAnonymous,
+                result: {
+                  score: snapshot.score,
+                  questionMode: gameSettings.playedMode,
+                  region: gameSettings.selectedRegion,
+                  correctAnswers: snapshot.correctAnswers,
+                  incorrectAnswers:
+                    snapshot.answers.length - snapshot.correctAnswers,
+                  achievements: Object.values(achievementRecordsRef.current)
+                    .filter((record) => record.unlocked)
+                    .map((record) => record.id),
+                  ranked: isRanked,
+                },
+              },
+            ]
+          : []),
+      ],
+      now
+    )
+      .then(() => syncPendingResults())
+      .catch((error) => console.error("Error queueing results:", error));
+  }, [gameState.phase, snapshot, gameSettings, syncPendingResults]);
+
+  // Retry on start-up, when the connection comes back, when the player who
+  // owns queued stats signs in, and every so often while anything is pending
+  React.useEffect(() => {
+    syncPendingResults();
+  }, [user, syncPendingResults]);
+
+  React.useEffect(() => {
+    const handleOnline = () => syncPendingResults();
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [syncPendingResults]);
+
+  const hasPendingResults = pendingResults.length > 0;
+  React.useEffect(() => {
+    if (!hasPendingResults) return;
+    const timer = setInterval(() => syncPendingResults(), 15000);
+    return () => clearInterval(timer);
+  }, [hasPendingResults, syncPendingResults]);
+
+  React.useEffect(() => {
+    if (gameState.phase !== "gameover" || !snapshot || !gameSettings.dailyKey) {
+      return;
+    }
+    const dailyKey = gameSettings.dailyKey;
+    setDailyResults((prev) =>
+      saveDailyResult(prev, dailyKey, {
+        score: snapshot.score,
+        correct: snapshot.correctAnswers,
+        total: DAILY_QUESTION_COUNT,
+        completed: true,
+      })
+    );
+  }, [gameState.phase, snapshot, gameSettings.dailyKey]);
+
+  React.useEffect(() => {
+    if (
+      gameState.phase !== "gameover" ||
+      !snapshot ||
+      savedGameRef.current === gameSettings.gameId
+    ) {
+      return;
+    }
+    savedGameRef.current = gameSettings.gameId;
+
+    saveGame({
+      gameId: gameSettings.gameId,
+      seed: gameSettings.seed,
+      variant: gameSettings.variant,
+      questionMode: gameSettings.playedMode,
+      difficulty: gameSettings.dailyKey
+        ? defaultGameSetup.difficulty
+        : gameSettings.difficulty,
+      region: gameSettings.selectedRegion,
+      subregion: gameSettings.selectedSubregion,
+      dailyKey: gameSettings.dailyKey,
+      isLearning: gameSettings.isLearning,
+      score: snapshot.score,
+      correctAnswers: snapshot.correctAnswers,
+      totalAnswers: snapshot.answers.length,
+      // The last input the game took, however late this effect runs
+      finishedAt:
+        getFinishedAt({ entries: gameRef.current?.getEntries() ?? [] }) ??
+        Date.now(),
+    }).catch((error) => console.error("Error saving game:", error));
+  }, [gameState.phase, snapshot, gameSettings]);
+
+  const handleExportProgress = async () => {
+    try {
+      const backup = await exportProgress();
+      const url = URL.createObjectURL(
+        new Blob([JSON.stringify(backup, null, 2)], {
+          type: "application/json",
+        })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `flagquest-progress-${getDailyKey()}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting progress:", error);
+      toast.error("Failed to export progress");
+    }
+  };
+
+  const handleImportProgress = async (file: File) => {
+    try {
+      await importProgress(JSON.parse(await file.text()));
+      await loadSavedProgress();
+      toast.success("Progress imported");
+    } catch (error) {
+      console.error("Error importing progress:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import progress"
+      );
+    }
+  };
+
   const toggleSound = React.useCallback(() => {
     setGameSettings((prev) => {
       const newSettings = { ...prev, soundEnabled: !prev.soundEnabled };
@@ -488,37 +864,48 @@ const FlagQuest: React.FC = () => {
     </motion.div>
   );
 
-  const renderGameMetrics = () => (
+  const renderGameMetrics = (game: GameSnapshot) => (
     <div className="space-y-2 mb-6">
       <div className="grid grid-cols-4 gap-2">
         <MetricCard
           icon={<Globe />}
           label="Score"
-          value={gameState.score}
+          value={game.score}
           color="green"
         />
         <MetricCard
           icon={<Clock />}
           label="Time"
-          value={`${Math.floor(gameState.timeRemaining / 60)}:${(
-            gameState.timeRemaining % 60
-          )
-            .toString()
-            .padStart(2, "0")}`}
+          value={
+            game.timeRemaining === null
+              ? "∞"
+              : `${Math.floor(game.timeRemaining / 60)}:${(
+                  game.timeRemaining % 60
+                )
+                  .toString()
+                  .padStart(2, "0")}`
+          }
           color="blue"
         />
         <MetricCard
           icon={<Star />}
           label="Streak"
-          value={streak}
+          value={game.streak}
           color="yellow"
         />
-        <MetricCard icon={<Heart />} label="Lives" value={lives} color="red" />
+        <MetricCard
+          icon={<Heart />}
+          label="Lives"
+          value={game.lives === Infinity ? "∞" : game.lives}
+          color="red"
+        />
       </div>
-      <Progress
-        value={(gameState.timeRemaining / gameSettings.timeLimit) * 100}
-        className="h-2"
-      />
+      {game.timeRemaining !== null && gameSettings.timeLimit !== null && (
+        <Progress
+          value={(game.timeRemaining / gameSettings.timeLimit) * 100}
+          className="h-2"
+        />
+      )}
     </div>
   );
 
@@ -528,6 +915,14 @@ const FlagQuest: React.FC = () => {
         FlagQuest
       </h1>
       <div className="flex gap-2">
+        <SyncStatus
+          pending={pendingResults}
+          isDarkMode={gameSettings.isDarkMode}
+          onSyncNow={() => syncPendingResults({ force: true })}
+        />
+        <Button variant="ghost" size="icon" onClick={() => setShowStats(true)}>
+          <BarChart3 className="h-5 w-5" />
+        </Button>
         <Button
           variant="ghost"
           size="icon"
@@ -563,12 +958,296 @@ const FlagQuest: React.FC = () => {
             <Moon className="h-5 w-5" />
           )}
         </Button>
+        <AccountMenu isDarkMode={gameSettings.isDarkMode} />
+      </div>
+    </div>
+  );
+
+  const renderModeSelection = () => (
+    <div>
+      <h2 className="text-xl font-semibold mb-4">Select Mode</h2>
+      <div className="grid grid-cols-2 gap-3">
+        {(Object.keys(questionModes) as QuestionMode[]).map((mode) => (
+          <Button
+            key={mode}
+            variant={gameSettings.questionMode === mode ? "default" : "outline"}
+            className="w-full h-12"
+            onClick={() =>
+              setGameSettings((prev) => ({ ...prev, questionMode: mode }))
+            }
+          >
+            {questionModes[mode]}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderDifficultySelection = () => (
+    <div>
+      <h2 className="text-xl font-semibold mb-4">Select Difficulty</h2>
+      <div className="grid grid-cols-3 gap-3">
+        {(Object.keys(difficulties) as Difficulty[]).map((difficulty) => (
+          <Button
+            key={difficulty}
+            variant={
+              gameSettings.difficulty === difficulty ? "default" : "outline"
+            }
+            className="w-full h-12"
+            onClick={() => setGameSettings((prev) => ({ ...prev, difficulty }))}
+          >
+            {difficulties[difficulty]}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderVariantSelection = () => (
+    <div>
+      <h2 className="text-xl font-semibold mb-4">Select Variant</h2>
+      <div className="grid grid-cols-2 gap-3">
+        {(Object.keys(gameVariants) as GameVariant[]).map((variant) => (
+          <Button
+            key={variant}
+            variant={gameSettings.variant === variant ? "default" : "outline"}
+            className="w-full h-auto py-2 flex-col gap-0"
+            onClick={() => setGameSettings((prev) => ({ ...prev, variant }))}
+          >
+            <span>{gameVariants[variant].name}</span>
+            <span className="text-xs font-normal opacity-75">
+              {variant === "custom"
+                ? describeRules(getSetupRules({ ...gameSettings, variant }))
+                : gameVariants[variant].description}
+            </span>
+          </Button>
+        ))}
+      </div>
+      <p className="text-xs opacity-75 mt-2">
+        High score: {getHighScore(highScores, gameSettings)}
+      </p>
+    </div>
+  );
+
+  const handleSharePreset = async () => {
+    const preset = encodePreset({
+      ...pickGameSetup(gameSettings),
+      seed: seedInput.trim() || null,
+    });
+    const url = `${window.location.origin}${window.location.pathname}?preset=${preset}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Preset link copied");
+    } catch (error) {
+      console.error("Error copying preset link:", error);
+      toast.error("Failed to copy preset link");
+    }
+  };
+
+  const renderChoiceRow = <T,>(
+    label: string,
+    choices: T[],
+    selected: T,
+    format: (choice: T) => string,
+    onSelect: (choice: T) => void
+  ) => (
+    <div>
+      <p className="text-sm font-medium mb-2">{label}</p>
+      <div className="flex flex-wrap gap-2">
+        {choices.map((choice) => (
+          <Button
+            key={format(choice)}
+            size="sm"
+            variant={choice === selected ? "default" : "outline"}
+            onClick={() => onSelect(choice)}
+          >
+            {format(choice)}
+          </Button>
+        ))}
       </div>
     </div>
   );
 
+  const renderAdvancedSetup = () => (
+    <div>
+      <Button
+        variant="ghost"
+        className="w-full justify-start px-0"
+        onClick={() => setShowAdvanced((prev) => !prev)}
+      >
+        <SlidersHorizontal className="w-4 h-4 mr-2" />
+        {showAdvanced ? "Hide Advanced Setup" : "Advanced Setup"}
+      </Button>
+      {showAdvanced && (
+        <div className="space-y-4 mt-2">
+          {/* Changing the clock or lives switches to the custom variant */}
+          {renderChoiceRow(
+            "Clock",
+            TIME_LIMIT_CHOICES,
+            gameSettings.customTimeLimit,
+            formatTimeLimit,
+            (customTimeLimit) =>
+              setGameSettings((prev) => ({
+                ...prev,
+                customTimeLimit,
+                variant: "custom",
+              }))
+          )}
+          {renderChoiceRow(
+            "Lives",
+            LIVES_CHOICES,
+            gameSettings.customLives,
+            formatLives,
+            (customLives) =>
+              setGameSettings((prev) => ({
+                ...prev,
+                customLives,
+                variant: "custom",
+              }))
+          )}
+          {renderChoiceRow(
+            "Answer options",
+            OPTION_COUNT_CHOICES,
+            gameSettings.optionCount,
+            String,
+            (optionCount) =>
+              setGameSettings((prev) => ({ ...prev, optionCount }))
+          )}
+          {renderChoiceRow(
+            "Questions",
+            QUESTION_COUNT_CHOICES,
+            gameSettings.questionCount,
+            (count) => (count === null ? "All" : `${count}`),
+            (questionCount) =>
+              setGameSettings((prev) => ({ ...prev, questionCount }))
+          )}
+          <p className="text-xs opacity-75">
+            Bigger and Richer Country modes always compare two countries.
+          </p>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={handleSharePreset}
+          >
+            <Share2 className="w-4 h-4 mr-2" />
+            Share Preset
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderSeedInput = () => (
+    <div>
+      <Label htmlFor="seed" className="text-sm font-medium">
+        Seed (optional)
+      </Label>
+      <Input
+        id="seed"
+        value={seedInput}
+        onChange={(e) => setSeedInput(e.target.value)}
+        placeholder="Random"
+        className="mt-2"
+      />
+      <p className="text-xs opacity-75 mt-1">
+        Players using the same seed and settings get the same game.
+      </p>
+    </div>
+  );
+
+  const renderDailyChallenge = () => {
+    const todayKey = getDailyKey();
+    const todayResult = dailyResults[todayKey];
+    const dailyStreak = getDailyStreak(dailyResults, todayKey);
+
+    return (
+      <div
+        className={`p-4 rounded-lg border ${
+          gameSettings.isDarkMode
+            ? "border-gray-600 bg-gray-700"
+            : "border-orange-200 bg-gradient-to-r from-orange-50 to-yellow-50"
+        }`}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-semibold flex items-center">
+            <CalendarDays className="w-5 h-5 mr-2" />
+            Daily Flag
+          </h2>
+          <span className="text-sm font-medium">
+            🔥 {dailyStreak} day streak
+          </span>
+        </div>
+        <p className="text-sm opacity-75 mt-2">
+          {todayResult
+            ? `Today's result: ${todayResult.correct}/${todayResult.total} correct, ${todayResult.score} points. Come back tomorrow!`
+            : `${DAILY_QUESTION_COUNT} flags, the same for every player today.`}
+        </p>
+        <Button
+          className="w-full mt-3"
+          disabled={!!todayResult || countryData.length === 0}
+          onClick={() => startGame(null, null, { dailyKey: todayKey })}
+        >
+          {todayResult ? "Completed" : "Play Today's Challenge"}
+        </Button>
+      </div>
+    );
+  };
+
+  const renderLearnEntry = () => {
+    const mastered = countryData.filter(
+      (country) => getCardStatus(learningProgress[country.name]) === "mastered"
+    ).length;
+
+    return (
+      <div
+        className={`p-4 rounded-lg border ${
+          gameSettings.isDarkMode
+            ? "border-gray-600 bg-gray-700"
+            : "border-green-200 bg-gradient-to-r from-green-50 to-teal-50"
+        }`}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-semibold flex items-center">
+            <GraduationCap className="w-5 h-5 mr-2" />
+            Learn
+          </h2>
+          <span className="text-sm font-medium">
+            {mastered}/{countryData.length} mastered
+          </span>
+        </div>
+        <p className="text-sm opacity-75 mt-2">
+          Missed flags come back soon, mastered ones fade out.
+        </p>
+        <Button
+          variant="outline"
+          className="w-full mt-3"
+          disabled={countryData.length === 0}
+          onClick={() => setShowLearning(true)}
+        >
+          View Progress & Learn
+        </Button>
+      </div>
+    );
+  };
+
   const renderRegionSelection = () => (
     <div className="space-y-8">
+      {renderDailyChallenge()}
+      {renderLearnEntry()}
+      <Button
+        variant="outline"
+        className="w-full h-12"
+        disabled={countryData.length === 0}
+        onClick={() => setGameState((prev) => ({ ...prev, phase: "atlas" }))}
+      >
+        <BookOpen className="w-4 h-4 mr-2" />
+        Browse the Atlas
+      </Button>
+      {renderModeSelection()}
+      {renderDifficultySelection()}
+      {renderVariantSelection()}
+      {renderAdvancedSetup()}
+      {renderSeedInput()}
       <div>
         <h2 className="text-xl font-semibold mb-4">Select Region</h2>
         <div className="grid grid-cols-2 gap-3">
@@ -628,11 +1307,7 @@ const FlagQuest: React.FC = () => {
                       : "bg-gradient-to-r from-purple-50 to-purple-100 hover:from-purple-100 hover:to-purple-200"
                   }`}
                   onClick={() =>
-                    startGame(
-                      gameSettings.selectedRegion,
-                      subregion,
-                      gameSettings.timeLimit
-                    )
+                    startGame(gameSettings.selectedRegion, subregion)
                   }
                 >
                   {subregion}
@@ -663,26 +1338,77 @@ const FlagQuest: React.FC = () => {
           </Card>
         );
       case "playing":
+      case "paused": {
+        if (!snapshot) return null;
+        const lastScore = snapshot.answers[snapshot.answers.length - 1]?.score;
+        const isPaused = gameState.phase === "paused";
         return (
           <Card className={mainCardClass}>
             {renderGameControls()}
-            {renderGameMetrics()}
-            {currentQuestion && (
+            {renderGameMetrics(snapshot)}
+            {/* The question isn't rendered while paused, so the flags can't
+                be studied in the meantime */}
+            {isPaused && (
+              <div
+                className={`flex flex-col items-center justify-center gap-4 py-16 rounded-lg ${
+                  gameSettings.isDarkMode ? "bg-gray-700" : "bg-gray-100"
+                }`}
+              >
+                <Pause className="w-10 h-10 opacity-50" />
+                <p className="text-xl font-semibold">Game Paused</p>
+                <Button onClick={resumeGame}>
+                  <Play className="w-4 h-4 mr-2" />
+                  Resume
+                </Button>
+              </div>
+            )}
+            {!isPaused && snapshot.question && (
               <FlagSelection
-                options={options}
-                currentQuestion={currentQuestion}
-                onAnswer={handleAnswer}
-                selectedAnswer={gameState.selectedAnswer}
-                isDarkMode={gameSettings.isDarkMode}
-                showHint={gameState.showHint}
-                onShowHint={() =>
-                  setGameState((prev) => ({ ...prev, showHint: true }))
+                questionMode={gameSettings.playedMode}
+                options={snapshot.question.options}
+                currentQuestion={snapshot.question.country}
+                questionPrompt={snapshot.question.prompt}
+                onAnswer={(country) =>
+                  gameRef.current?.answer(country, Date.now())
                 }
+                onTypedAnswer={(text) =>
+                  gameRef.current?.answerTyped(text, Date.now())?.correct ??
+                  false
+                }
+                selectedAnswer={snapshot.selectedAnswer}
+                isDarkMode={gameSettings.isDarkMode}
+                showHint={snapshot.hintUsed}
+                onShowHint={() => gameRef.current?.revealHint()}
+              />
+            )}
+            {!isPaused && snapshot.status === "feedback" && lastScore && (
+              <ScoreBreakdown
+                breakdown={lastScore}
+                isDarkMode={gameSettings.isDarkMode}
               />
             )}
+            {!isPaused && (
+              <div className="flex justify-center gap-2 mt-2">
+                <Button variant="outline" size="sm" onClick={() => pauseGame()}>
+                  <Pause className="w-4 h-4 mr-2" />
+                  Pause
+                </Button>
+                {gameSettings.isLearning && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => gameRef.current?.finish()}
+                  >
+                    Finish Session
+                  </Button>
+                )}
+              </div>
+            )}
           </Card>
         );
+      }
       case "gameover":
+        if (!snapshot) return null;
         return (
           <Card className={mainCardClass}>
             {renderGameControls()}
@@ -697,31 +1423,48 @@ const FlagQuest: React.FC = () => {
                 </h2>
                 <div className="mt-4 space-y-2">
                   <p className="text-2xl font-semibold">
-                    Final Score: {gameState.score}
+                    Final Score: {snapshot.score}
                   </p>
-                  <p className="text-lg">High Score: {highScore}</p>
+                  {!gameSettings.dailyKey &&
+                    !gameSettings.isLearning &&
+                    !gameSettings.questionPool && (
+                      <p className="text-lg">
+                        {gameVariants[gameSettings.variant].name} High Score:{" "}
+                        {getHighScore(highScores, gameSettings)}
+                      </p>
+                    )}
                   <p className="text-lg">
-                    Countries Completed: {gameState.askedQuestions.size}
+                    Countries Completed: {snapshot.askedQuestions.size}
                   </p>
-                  <p className="text-lg">Best Streak: {streak}</p>
+                  <p className="text-lg">Best Streak: {snapshot.bestStreak}</p>
+                  {gameSettings.dailyKey && (
+                    <>
+                      <p className="text-lg">
+                        Daily Flag {gameSettings.dailyKey}:{" "}
+                        {snapshot.correctAnswers}/{DAILY_QUESTION_COUNT} correct
+                      </p>
+                      <p className="text-lg">
+                        🔥 Daily Streak: {getDailyStreak(dailyResults)}
+                      </p>
+                    </>
+                  )}
+                  <p className="text-sm opacity-75">
+                    Seed: <span className="font-mono">{gameSettings.seed}</span>
+                  </p>
+                  {pendingResults.some(
+                    (item) => item.gameId === gameSettings.gameId
+                  ) && (
+                    <p className="text-sm opacity-75">
+                      Saved on this device, uploads once you&apos;re online
+                    </p>
+                  )}
                 </div>
               </motion.div>
 
               <div className="flex justify-center gap-4">
                 <Button
                   onClick={() => {
-                    setGameState({
-                      phase: "setup",
-                      setupStep: "region",
-                      score: 0,
-                      timeRemaining: gameSettings.timeLimit,
-                      showHint: false,
-                      isCorrect: null,
-                      selectedAnswer: null,
-                      askedQuestions: new Set<string>(),
-                    });
-                    setLives(3);
-                    setStreak(0);
+                    setGameState({ phase: "setup", setupStep: "region" });
                   }}
                   className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white"
                 >
@@ -734,9 +1477,32 @@ const FlagQuest: React.FC = () => {
                   View Leaderboard
                 </Button>
               </div>
+
+              <GameReview
+                answers={snapshot.answers}
+                isDarkMode={gameSettings.isDarkMode}
+                onRetryMistakes={(countries) =>
+                  startGame(null, null, {
+                    pool: countries.map((country) => country.name),
+                  })
+                }
+              />
             </div>
           </Card>
         );
+      case "atlas":
+        return (
+          <Card className={mainCardClass}>
+            {renderGameControls()}
+            <Atlas
+              countries={countryData}
+              isDarkMode={gameSettings.isDarkMode}
+              onBack={() =>
+                setGameState((prev) => ({ ...prev, phase: "setup" }))
+              }
+            />
+          </Card>
+        );
       default:
         return null;
     }
@@ -758,29 +1524,53 @@ const FlagQuest: React.FC = () => {
           <DialogHeader>
             <DialogTitle>Leaderboard</DialogTitle>
           </DialogHeader>
-          <div className="space-y-3 mt-4">
-            {leaderboard.map((entry, index) => (
-              <motion.div
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ delay: index * 0.1 }}
-                key={index}
-                className={`flex justify-between items-center p-3 rounded-lg ${
-                  gameSettings.isDarkMode ? "bg-gray-700" : "bg-gray-50"
-                }`}
-              >
-                <div className="flex items-center gap-3">
-                  {index < 3 && (
-                    <div className="text-yellow-500">
-                      <Trophy className="w-5 h-5" />
-                    </div>
-                  )}
-                  <span className="font-medium">{entry.name}</span>
-                </div>
-                <span className="font-bold">{entry.score}</span>
-              </motion.div>
-            ))}
-          </div>
+          <Leaderboard
+            regions={
+              Object.values(regions).filter(
+                (region) => region !== null
+              ) as string[]
+            }
+            getSubregions={getSubregions}
+            defaultRegion={gameSettings.selectedRegion}
+            defaultSubregion={
+              gameSettings.selectedSubregion === "All Regions"
+                ? null
+                : gameSettings.selectedSubregion
+            }
+            setup={pickGameSetup(gameSettings)}
+            isDarkMode={gameSettings.isDarkMode}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showLearning} onOpenChange={setShowLearning}>
+        <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Learning Progress</DialogTitle>
+          </DialogHeader>
+          <LearningProgress
+            countries={countryData}
+            progress={learningProgress}
+            isDarkMode={gameSettings.isDarkMode}
+            onLearn={(region) => {
+              setShowLearning(false);
+              startGame(region, null, { learning: true });
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showStats} onOpenChange={setShowStats}>
+        <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Statistics</DialogTitle>
+          </DialogHeader>
+          <StatsDashboard
+            history={answerHistory}
+            isDarkMode={gameSettings.isDarkMode}
+            onExport={handleExportProgress}
+            onImport={handleImportProgress}
+          />
         </DialogContent>
       </Dialog>
 
@@ -789,39 +1579,10 @@ const FlagQuest: React.FC = () => {
           <DialogHeader>
             <DialogTitle>Achievements</DialogTitle>
           </DialogHeader>
-          <div className="space-y-3 mt-4">
-            {achievements.map((achievement, index) => (
-              <motion.div
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ delay: index * 0.1 }}
-                key={achievement.id}
-                className={`p-3 rounded-lg ${
-                  achievement.unlocked
-                    ? gameSettings.isDarkMode
-                      ? "bg-green-900/20"
-                      : "bg-green-50"
-                    : gameSettings.isDarkMode
-                    ? "bg-gray-700"
-                    : "bg-gray-50"
-                }`}
-              >
-                <div className="flex items-center justify-between">
-                  <div>
-                    <h3 className="font-medium">{achievement.name}</h3>
-                    <p className="text-sm opacity-75">
-                      {achievement.description}
-                    </p>
-                  </div>
-                  {achievement.unlocked && (
-                    <div className="text-green-500">
-                      <Trophy className="w-5 h-5" />
-                    </div>
-                  )}
-                </div>
-              </motion.div>
-            ))}
-          </div>
+          <AchievementList
+            records={achievementRecords}
+            isDarkMode={gameSettings.isDarkMode}
+          />
         </DialogContent>
       </Dialog>
 
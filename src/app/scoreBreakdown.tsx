@@ -0,0 +1,44 @@
+import React from "react";
+import { motion } from "framer-motion";
+import { ScoreBreakdown as Breakdown, ScoreLine } from "@/library/scoring";
+
+interface ScoreBreakdownProps {
+  breakdown: Breakdown;
+  isDarkMode: boolean;
+}
+
+const formatLine = (line: ScoreLine): string => {
+  if (line.kind === "multiplier") return `×${line.value}`;
+  return line.value < 0 ? `${line.value}` : `+${line.value}`;
+};
+
+const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({
+  breakdown,
+  isDarkMode,
+}) => (
+  <motion.div
+    initial={{ opacity: 0, y: 10 }}
+    animate={{ opacity: 1, y: 0 }}
+    className={`mt-4 p-3 rounded-lg text-sm ${
+      isDarkMode ? "bg-gray-700" : "bg-green-50"
+    }`}
+  >
+    <div className="flex flex-wrap gap-x-4 gap-y-1">
+      {breakdown.lines.map((line) => (
+        <span key={line.label} className="flex gap-1">
+          <span className="opacity-75">{line.label}</span>
+          <span
+            className={`font-medium ${
+              line.value < 0 ? "text-red-500" : "text-green-600"
+            }`}
+          >
+            {formatLine(line)}
+          </span>
+        </span>
+      ))}
+    </div>
+    <p className="mt-1 font-semibold">+{breakdown.total} points</p>
+  </motion.div>
+);
+
+export default ScoreBreakdown;
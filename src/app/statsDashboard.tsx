@@ -0,0 +1,203 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Download, Upload } from "lucide-react";
+import {
+  AccuracyStats,
+  AnswerEvent,
+  getAccuracyBy,
+  getAverageResponseTime,
+  getConfusionPairs,
+  getGamesPerDay,
+} from "@/library/answerHistory";
+
+interface StatsDashboardProps {
+  history: AnswerEvent[];
+  isDarkMode: boolean;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const RECENT_DAYS = 14;
+
+const StatsDashboard: React.FC<StatsDashboardProps> = ({
+  history,
+  isDarkMode,
+  onExport,
+  onImport,
+}) => {
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const stats = React.useMemo(
+    () => ({
+      continents: getAccuracyBy(history, "continent"),
+      subregions: getAccuracyBy(history, "subregion"),
+      averageTime: getAverageResponseTime(history),
+      gamesPerDay: getGamesPerDay(history).slice(-RECENT_DAYS),
+      confusions: getConfusionPairs(history, 10),
+      games: new Set(history.map((event) => event.gameId)).size,
+      correct: history.filter((event) => event.correct).length,
+    }),
+    [history]
+  );
+
+  const panelClass = `p-3 rounded-lg ${
+    isDarkMode ? "bg-gray-700" : "bg-gray-50"
+  }`;
+
+  const renderBackup = () => (
+    <div className="flex gap-2">
+      <Button variant="outline" className="flex-1" onClick={onExport}>
+        <Download className="w-4 h-4 mr-2" />
+        Export
+      </Button>
+      <Button
+        variant="outline"
+        className="flex-1"
+        onClick={() => fileInputRef.current?.click()}
+      >
+        <Upload className="w-4 h-4 mr-2" />
+        Import
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+
+  if (history.length === 0) {
+    return (
+      <div className="space-y-4 mt-4">
+        <p className="text-sm opacity-75">
+          Play a game to start collecting statistics.
+        </p>
+        {renderBackup()}
+      </div>
+    );
+  }
+
+  const renderSummary = () => (
+    <div className="grid grid-cols-3 gap-2 text-center">
+      <div className={panelClass}>
+        <p className="text-xl font-bold">{stats.games}</p>
+        <p className="text-xs opacity-75">Games</p>
+      </div>
+      <div className={panelClass}>
+        <p className="text-xl font-bold">
+          {Math.round((stats.correct / history.length) * 100)}%
+        </p>
+        <p className="text-xs opacity-75">Accuracy</p>
+      </div>
+      <div className={panelClass}>
+        <p className="text-xl font-bold">
+          {((stats.averageTime ?? 0) / 1000).toFixed(1)}s
+        </p>
+        <p className="text-xs opacity-75">Avg. Answer</p>
+      </div>
+    </div>
+  );
+
+  const renderGamesOverTime = () => {
+    const most = Math.max(...stats.gamesPerDay.map((day) => day.games));
+    return (
+      <div>
+        <h3 className="text-sm font-semibold mb-2">Games Played</h3>
+        <div className="flex items-end gap-1 h-24">
+          {stats.gamesPerDay.map((day) => (
+            <div
+              key={day.date}
+              title={`${day.date}: ${day.games}`}
+              className="flex-1 bg-gradient-to-t from-blue-500 to-purple-500 rounded-t"
+              style={{ height: `${(day.games / most) * 100}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-xs opacity-75 mt-1">
+          <span>{stats.gamesPerDay[0].date}</span>
+          <span>{stats.gamesPerDay[stats.gamesPerDay.length - 1].date}</span>
+        </div>
+      </div>
+    );
+  };
+
+  const renderAccuracy = (rows: AccuracyStats[]) => (
+    <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+      {rows.map((row) => {
+        const percent = Math.round((row.correct / row.total) * 100);
+        return (
+          <div key={row.label}>
+            <div className="flex justify-between text-sm">
+              <span>{row.label}</span>
+              <span className="opacity-75">
+                {percent}% ({row.correct}/{row.total})
+              </span>
+            </div>
+            <div
+              className={`h-2 rounded-full overflow-hidden ${
+                isDarkMode ? "bg-gray-600" : "bg-gray-200"
+              }`}
+            >
+              <div
+                className="h-full bg-green-500"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderConfusions = () => (
+    <div>
+      <h3 className="text-sm font-semibold mb-2">Common Mix-ups</h3>
+      {stats.confusions.length === 0 ? (
+        <p className="text-sm opacity-75">No mistakes yet.</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {stats.confusions.map((pair) => (
+            <li key={`${pair.country}-${pair.selected}`} className={panelClass}>
+              You picked <strong>{pair.selected}</strong> when asked{" "}
+              <strong>{pair.country}</strong> {pair.count}{" "}
+              {pair.count === 1 ? "time" : "times"}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 mt-4">
+      {renderSummary()}
+      {renderGamesOverTime()}
+      <div>
+        <h3 className="text-sm font-semibold mb-2">Accuracy</h3>
+        <Tabs defaultValue="continent">
+          <TabsList className="grid w-full grid-cols-2 mb-2">
+            <TabsTrigger value="continent">Continents</TabsTrigger>
+            <TabsTrigger value="subregion">Subregions</TabsTrigger>
+          </TabsList>
+          <TabsContent value="continent">
+            {renderAccuracy(stats.continents)}
+          </TabsContent>
+          <TabsContent value="subregion">
+            {renderAccuracy(stats.subregions)}
+          </TabsContent>
+        </Tabs>
+      </div>
+      {renderConfusions()}
+      {renderBackup()}
+    </div>
+  );
+};
+
+export default StatsDashboard;
@@ -0,0 +1,95 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CloudUpload } from "lucide-react";
+import { useAuth } from "@/firebase/Auth";
+import { SyncItem } from "@/firebase/syncQueue";
+import { questionModes } from "@/library/gameTypes";
+
+interface SyncStatusProps {
+  pending: SyncItem[];
+  isDarkMode: boolean;
+  onSyncNow: () => void;
+}
+
+const describeItem = (item: SyncItem): string =>
+  item.kind === "leaderboard"
+    ? `Leaderboard: ${item.submission.score} points, ${
+        questionModes[item.submission.log.setup.questionMode]
+      }`
+    : `Account stats: ${item.result.score} points, ${
+        questionModes[item.result.questionMode]
+      }`;
+
+/**
+ * Header button shown while results wait to be uploaded, listing them
+ */
+const SyncStatus: React.FC<SyncStatusProps> = ({
+  pending,
+  isDarkMode,
+  onSyncNow,
+}) => {
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = React.useState(false);
+  if (pending.length === 0) return null;
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="relative"
+        title={`${pending.length} results waiting to sync`}
+        onClick={() => setIsOpen(true)}
+      >
+        <CloudUpload className="h-5 w-5" />
+        <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-orange-500 text-white text-[10px] leading-4">
+          {pending.length}
+        </span>
+      </Button>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Waiting to Sync</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm opacity-75 mt-2">
+            These results are saved on this device and upload automatically once
+            you&apos;re online.
+          </p>
+          <div className="space-y-2 mt-2 max-h-[50vh] overflow-y-auto">
+            {pending.map((item) => (
+              <div
+                key={item.id}
+                className={`p-3 rounded-lg text-sm ${
+                  isDarkMode ? "bg-gray-700" : "bg-gray-50"
+                }`}
+              >
+                <p className="font-medium">{describeItem(item)}</p>
+                <p className="text-xs opacity-75">
+                  Played {new Date(item.queuedAt).toLocaleString()}
+                  {item.attempts > 0 &&
+                    ` · ${item.attempts} failed ${
+                      item.attempts === 1 ? "attempt" : "attempts"
+                    }`}
+                  {item.kind === "stats" &&
+                    item.userId !== user?.uid &&
+                    " · uploads when its player signs in again"}
+                </p>
+              </div>
+            ))}
+          </div>
+          <Button className="w-full mt-2" onClick={onSyncNow}>
+            Sync Now
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SyncStatus;
@@ -1,98 +1,217 @@
-import { useState, useEffect } from "react";
-import { auth } from "@/firebase/firebase";
+"use client";
+import React from "react";
 import {
+  AuthCredential,
+  EmailAuthProvider,
+  GoogleAuthProvider,
+  User,
+  createUserWithEmailAndPassword,
+  linkWithCredential,
+  linkWithPopup,
+  onAuthStateChanged,
   signInAnonymously,
+  signInWithCredential,
+  signInWithEmailAndPassword,
   signInWithPopup,
-  GoogleAuthProvider,
   signOut as firebaseSignOut,
-  onAuthStateChanged,
-  User,
+  updateProfile,
 } from "firebase/auth";
-import { doc, setDoc, getDoc, serverTimestamp } from "firebase/firestore";
-import { db } from "@/firebase/firebase";
+import {
+  doc,
+  getDoc,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from "firebase/firestore";
+import { FirebaseError } from "firebase/app";
+import { auth, db } from "@/firebase/firebase";
 
-const googleProvider = new GoogleAuthProvider();
+/**
+ * Thrown when a guest tries to link a Google or email login that already
+ * belongs to another account. The credential signs in to that account if
+ * the player chooses to switch.
+ */
+export class AccountConflictError extends Error {
+  constructor(public credential: AuthCredential) {
+    super("That login already belongs to another account");
+    this.name = "AccountConflictError";
+  }
+}
 
-export const useAuth = () => {
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+interface AuthContextValue {
+  user: User | null;
+  loading: boolean; // True until the first auth state arrives
+  error: string | null; // Message of the last failed action
+  signInAnon: () => Promise<User>;
+  signInWithGoogle: () => Promise<User>;
+  signInWithEmail: (email: string, password: string) => Promise<User>;
+  signUpWithEmail: (
+    email: string,
+    password: string,
+    displayName: string
+  ) => Promise<User>;
+  /** Turns the current guest into a Google account, keeping its uid */
+  linkWithGoogle: () => Promise<User>;
+  /** Turns the current guest into an email account, keeping its uid */
+  linkWithEmail: (
+    email: string,
+    password: string,
+    displayName: string
+  ) => Promise<User>;
+  /** Signs in to the account an AccountConflictError pointed at */
+  switchAccount: (credential: AuthCredential) => Promise<User>;
+  signOut: () => Promise<void>;
+}
 
-  useEffect(() => {
-    const unsubscribe = onAuthStateChanged(
-      auth,
-      (user) => {
-        setUser(user);
-        setLoading(false);
-        setError(null);
-      },
-      (error) => {
-        setError(error.message);
-        setLoading(false);
-      }
-    );
-    return unsubscribe;
-  }, []);
+const AuthContext = React.createContext<AuthContextValue | null>(null);
 
-  const signInAnon = async () => {
-    try {
-      setLoading(true);
-      const result = await signInAnonymously(auth);
-      await initializeUserProfile(result.user.uid);
-      return result.user;
-    } catch (error) {
-      setError((error as Error).message);
-      throw error;
-    } finally {
-      setLoading(false);
-    }
-  };
+const googleProvider = new GoogleAuthProvider();
 
-  const signInWithGoogle = async () => {
-    try {
-      setLoading(true);
-      const result = await signInWithPopup(auth, googleProvider);
-      await initializeUserProfile(result.user.uid);
-      return result.user;
-    } catch (error) {
-      setError((error as Error).message);
-      throw error;
-    } finally {
-      setLoading(false);
+/**
+ * Creates the users/{uid} profile on first sign-in, and renames it once a
+ * guest links a named account
+ */
+const initializeUserProfile = async (user: User) => {
+  const userRef = doc(db, "users", user.uid);
+  const userSnap = await getDoc(userRef);
+
+  if (userSnap.exists()) {
+    if (user.displayName && userSnap.data().displayName !== user.displayName) {
+      await updateDoc(userRef, { displayName: user.displayName });
     }
-  };
+  } else {
+    await setDoc(userRef, {
+      displayName: user.displayName || "Anonymous Player",
+      highScore: 0,
+      gamesPlayed: 0,
+      achievements: [],
+      lastPlayed: serverTimestamp(),
+    });
+  }
+};
 
-  const signOut = async () => {
+/**
+ * Tracks the signed-in Firebase user and offers every sign-in method.
+ * Failed actions set `error` and rethrow, so callers can react as well.
+ */
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [user, setUser] = React.useState<User | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  // Linking and renaming change the user object in place without an auth
+  // state event, so successful actions bump this to re-render consumers
+  const [, setRevision] = React.useState(0);
+
+  React.useEffect(
+    () =>
+      onAuthStateChanged(
+        auth,
+        (user) => {
+          setUser(user);
+          setLoading(false);
+        },
+        (error) => {
+          setError(error.message);
+          setLoading(false);
+        }
+      ),
+    []
+  );
+
+  const run = async <T,>(action: () => Promise<T>): Promise<T> => {
     try {
-      await firebaseSignOut(auth);
-      setUser(null);
+      setError(null);
+      return await action();
     } catch (error) {
       setError((error as Error).message);
       throw error;
     }
   };
 
-  const initializeUserProfile = async (uid: string) => {
-    const userRef = doc(db, "users", uid);
-    const userSnap = await getDoc(userRef);
-
-    if (!userSnap.exists()) {
-      await setDoc(userRef, {
-        displayName: auth.currentUser?.displayName || "Anonymous Player",
-        highScore: 0,
-        gamesPlayed: 0,
-        achievements: [],
-        lastPlayed: serverTimestamp(),
-      });
+  const getGuest = (): User => {
+    if (!auth.currentUser?.isAnonymous) {
+      throw new Error("Only guest accounts can be upgraded");
     }
+    return auth.currentUser;
   };
 
-  return {
+  const signIn = (getUser: () => Promise<User>) =>
+    run(async () => {
+      const user = await getUser();
+      await initializeUserProfile(user);
+      setRevision((prev) => prev + 1);
+      return user;
+    });
+
+  const value: AuthContextValue = {
     user,
     loading,
     error,
-    signInAnon,
-    signInWithGoogle,
-    signOut,
+    signInAnon: () => signIn(async () => (await signInAnonymously(auth)).user),
+    signInWithGoogle: () =>
+      signIn(async () => (await signInWithPopup(auth, googleProvider)).user),
+    signInWithEmail: (email, password) =>
+      signIn(
+        async () =>
+          (await signInWithEmailAndPassword(auth, email, password)).user
+      ),
+    signUpWithEmail: (email, password, displayName) =>
+      signIn(async () => {
+        const { user } = await createUserWithEmailAndPassword(
+          auth,
+          email,
+          password
+        );
+        await updateProfile(user, { displayName });
+        return user;
+      }),
+    linkWithGoogle: () =>
+      signIn(async () => {
+        try {
+          const { user } = await linkWithPopup(getGuest(), googleProvider);
+          // Linking keeps the guest's empty name, so take Google's
+          const googleName = user.providerData[0]?.displayName;
+          if (!user.displayName && googleName) {
+            await updateProfile(user, { displayName: googleName });
+          }
+          return user;
+        } catch (error) {
+          const credential =
+            error instanceof FirebaseError &&
+            error.code === "auth/credential-already-in-use"
+              ? GoogleAuthProvider.credentialFromError(error)
+              : null;
+          throw credential ? new AccountConflictError(credential) : error;
+        }
+      }),
+    linkWithEmail: (email, password, displayName) =>
+      signIn(async () => {
+        const credential = EmailAuthProvider.credential(email, password);
+        try {
+          const { user } = await linkWithCredential(getGuest(), credential);
+          await updateProfile(user, { displayName });
+          return user;
+        } catch (error) {
+          throw error instanceof FirebaseError &&
+            error.code === "auth/email-already-in-use"
+            ? new AccountConflictError(credential)
+            : error;
+        }
+      }),
+    switchAccount: (credential) =>
+      signIn(async () => (await signInWithCredential(auth, credential)).user),
+    signOut: () => run(() => firebaseSignOut(auth)),
   };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = (): AuthContextValue => {
+  const context = React.useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used inside an AuthProvider");
+  }
+  return context;
 };
@@ -0,0 +1,280 @@
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type {
+  GameResult,
+  leaderboard as LeaderboardApi,
+  userStats as UserStatsApi,
+} from "@/firebase/Firestore";
+import { getFinishedAt, replayGame } from "@/library/gameLog";
+import { getRulesKey } from "@/library/gameSetup";
+import { countries, playGame, timedSetup, untimedSetup } from "@/test/playGame";
+
+// Runs against the Auth and Firestore emulators through
+// `npm run test:emulators`, which sets FIRESTORE_EMULATOR_HOST
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)("userStats", () => {
+  let userStats: typeof UserStatsApi;
+  let signIn: () => Promise<string>;
+  let writeProfile: (changes: object) => Promise<void>;
+  let writeGame: (gameId: string, data: object | null) => Promise<void>;
+  let userId: string;
+
+  const result = (changes: Partial<GameResult> = {}): GameResult => ({
+    score: 100,
+    questionMode: "flag",
+    region: "Europe",
+    correctAnswers: 8,
+    incorrectAnswers: 2,
+    achievements: [],
+    ranked: true,
+    ...changes,
+  });
+
+  beforeAll(async () => {
+    // Imported late, so a run without emulators never initializes Firebase
+    const { auth, db } = await import("@/firebase/firebase");
+    const { signInAnonymously } = await import("firebase/auth");
+    const { deleteDoc, doc, setDoc } = await import("firebase/firestore");
+    ({ userStats } = await import("@/firebase/Firestore"));
+    signIn = async () => (await signInAnonymously(auth)).user.uid;
+    writeProfile = (changes) =>
+      setDoc(doc(db, "users", userId), changes, { merge: true });
+    writeGame = (gameId, data) => {
+      const gameRef = doc(db, "users", userId, "games", gameId);
+      return data ? setDoc(gameRef, data) : deleteDoc(gameRef);
+    };
+  });
+
+  // Profiles are owner-only, so every test plays as a fresh guest
+  beforeEach(async () => {
+    userId = await signIn();
+  });
+
+  it("reads null before a player has a profile", async () => {
+    expect(await userStats.getStats(userId)).toBeNull();
+  });
+
+  it("adds games up and reads them from users/{uid}", async () => {
+    await userStats.updateStats(userId, "game-1", result({ score: 100 }));
+    await userStats.updateStats(
+      userId,
+      "game-2",
+      result({ score: 250, correctAnswers: 5, incorrectAnswers: 1 })
+    );
+
+    expect(await userStats.getStats(userId)).toMatchObject({
+      highScore: 250,
+      gamesPlayed: 2,
+      totalScore: 350,
+      totalCorrect: 13,
+      totalIncorrect: 3,
+    });
+  });
+
+  it("counts a game ID once", async () => {
+    await userStats.updateStats(userId, "game-1", result({ score: 100 }));
+    await userStats.updateStats(userId, "game-1", result({ score: 100 }));
+
+    expect(await userStats.getStats(userId)).toMatchObject({
+      gamesPlayed: 1,
+      totalScore: 100,
+    });
+  });
+
+  it("only ever raises the high score", async () => {
+    await userStats.updateStats(userId, "game-1", result({ score: 500 }));
+    await userStats.updateStats(userId, "game-2", result({ score: 200 }));
+    expect((await userStats.getStats(userId))?.highScore).toBe(500);
+
+    // Unranked games count towards the totals but not the bests
+    await userStats.updateStats(
+      userId,
+      "game-3",
+      result({ score: 900, ranked: false })
+    );
+    expect(await userStats.getStats(userId)).toMatchObject({
+      highScore: 500,
+      totalScore: 1600,
+    });
+  });
+
+  it("unions achievements", async () => {
+    await userStats.updateStats(
+      userId,
+      "game-1",
+      result({ achievements: ["first-game", "streak-5"] })
+    );
+    await userStats.updateStats(
+      userId,
+      "game-2",
+      result({ achievements: ["streak-5", "perfect-round"] })
+    );
+
+    const stats = await userStats.getStats(userId);
+    expect([...stats!.achievements].sort()).toEqual([
+      "first-game",
+      "perfect-round",
+      "streak-5",
+    ]);
+  });
+
+  it("merges bests by mode and region", async () => {
+    await userStats.updateStats(
+      userId,
+      "game-1",
+      result({ score: 300, questionMode: "flag", region: "Europe" })
+    );
+    await userStats.updateStats(
+      userId,
+      "game-2",
+      result({ score: 400, questionMode: "capital", region: null })
+    );
+    await userStats.updateStats(
+      userId,
+      "game-3",
+      result({ score: 100, questionMode: "flag", region: "Europe" })
+    );
+
+    expect(await userStats.getStats(userId)).toMatchObject({
+      bestByMode: { flag: 300, capital: 400 },
+      bestByRegion: { Europe: 300, World: 400 },
+    });
+  });
+
+  it("merges a device's progress, keeping the larger of each", async () => {
+    await userStats.updateStats(
+      userId,
+      "game-1",
+      result({ score: 300, questionMode: "flag", region: "Europe" })
+    );
+    const progress = {
+      highScore: 200,
+      gamesPlayed: 5,
+      totalScore: 900,
+      totalCorrect: 4,
+      totalIncorrect: 20,
+      bestByMode: { flag: 200, capital: 150 },
+      bestByRegion: { Europe: 250, Asia: 200 },
+      achievements: ["streak-5"],
+    };
+
+    await userStats.mergeProgress(userId, progress);
+    await userStats.mergeProgress(userId, progress);
+
+    const stats = await userStats.getStats(userId);
+    expect(stats).toMatchObject({
+      highScore: 300,
+      gamesPlayed: 5,
+      totalScore: 900,
+      totalCorrect: 8,
+      totalIncorrect: 20,
+      bestByMode: { flag: 300, capital: 150 },
+      bestByRegion: { Europe: 300, Asia: 200 },
+    });
+    expect(stats?.achievements).toContain("streak-5");
+  });
+
+  it("keeps players from lowering or inventing stats directly", async () => {
+    await userStats.updateStats(userId, "game-1", result({ score: 300 }));
+
+    for (const changes of [
+      { highScore: 100 },
+      { totalScore: 0 },
+      { bestByMode: { flag: 10 } },
+      { achievements: [] },
+      { rank: "Grandmaster" },
+      { bestByRegion: { Atlantis: 9000 } },
+    ]) {
+      await expect(writeProfile(changes)).rejects.toMatchObject({
+        code: "permission-denied",
+      });
+    }
+    expect((await userStats.getStats(userId))?.highScore).toBe(300);
+  });
+
+  it("keeps counted games from being uncounted", async () => {
+    await userStats.updateStats(userId, "game-1", result());
+
+    await expect(writeGame("game-1", null)).rejects.toMatchObject({
+      code: "permission-denied",
+    });
+    await expect(writeGame("game-1", { score: 0 })).rejects.toMatchObject({
+      code: "permission-denied",
+    });
+  });
+});
+
+// Also needs the Functions emulator with a built `functions/`
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)(
+  "leaderboard.submitScore",
+  () => {
+    let leaderboard: typeof LeaderboardApi;
+    let writeDirectly: (entry: object) => Promise<void>;
+    let userId: string;
+
+    const findEntries = async (gameId: string) =>
+      (
+        await leaderboard.getGlobalLeaderboard(getRulesKey(timedSetup), 1000)
+      ).filter((entry) => entry.gameId === gameId);
+
+    beforeAll(async () => {
+      const { auth, db } = await import("@/firebase/firebase");
+      const { signInAnonymously } = await import("firebase/auth");
+      const { doc, setDoc } = await import("firebase/firestore");
+      ({ leaderboard } = await import("@/firebase/Firestore"));
+      userId = (await signInAnonymously(auth)).user.uid;
+      writeDirectly = (entry) =>
+        setDoc(doc(db, "leaderboard", "forged-entry"), entry);
+    });
+
+    it("ranks the score the replay earns, once per game", async () => {
+      const log = playGame();
+      const score = replayGame(countries, log).score;
+      const gameId = `ranked-${Date.now()}`;
+      const submission = { gameId, username: "Tester", score, log };
+
+      await leaderboard.submitScore(submission);
+      await leaderboard.submitScore(submission);
+
+      expect(await findEntries(gameId)).toEqual([
+        {
+          gameId,
+          userId,
+          username: "Tester",
+          score,
+          variant: "timeAttack",
+          rulesKey: getRulesKey(timedSetup),
+          questionMode: "name",
+          region: null,
+          subregion: null,
+          timestamp: getFinishedAt(log),
+        },
+      ]);
+    });
+
+    it("rejects a score the replay doesn't earn", async () => {
+      const log = playGame();
+      const gameId = `inflated-${Date.now()}`;
+      const score = replayGame(countries, log).score + 1000;
+
+      await expect(
+        leaderboard.submitScore({ gameId, username: "Tester", score, log })
+      ).rejects.toMatchObject({ code: "functions/failed-precondition" });
+      expect(await findEntries(gameId)).toEqual([]);
+    });
+
+    it("rejects logs with implausible timing", async () => {
+      const log = playGame({ setup: untimedSetup, pauseLength: 600000 });
+      const gameId = `paused-${Date.now()}`;
+
+      await expect(
+        leaderboard.submitScore({ gameId, username: "Tester", score: 0, log })
+      ).rejects.toMatchObject({ code: "functions/invalid-argument" });
+      expect(await findEntries(gameId)).toEqual([]);
+    });
+
+    it("keeps clients from writing entries themselves", async () => {
+      await expect(
+        writeDirectly({ gameId: "forged-entry", score: 99999 })
+      ).rejects.toMatchObject({ code: "permission-denied" });
+    });
+  }
+);
@@ -1,81 +1,258 @@
 import {
   collection,
   doc,
-  setDoc,
+  getDoc,
   getDocs,
   query,
   where,
   orderBy,
   limit,
-  updateDoc,
-  increment,
+  arrayUnion,
+  runTransaction,
+  serverTimestamp,
+  QueryFieldFilterConstraint,
 } from "firebase/firestore";
-import { db } from "@/firebase/firebase";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/firebase/firebase";
+import { GameVariant, QuestionMode } from "@/library/gameTypes";
+import { GameLog, toJsonLog } from "@/library/gameLog";
+import { ProgressSummary } from "@/library/progressSummary";
 
-interface UserStats {
+/**
+ * The stats part of a users/{uid} profile
+ */
+export interface UserStats {
   highScore: number;
   gamesPlayed: number;
   totalScore: number;
+  totalCorrect: number;
+  totalIncorrect: number;
+  bestByMode: Partial<Record<QuestionMode, number>>;
+  bestByRegion: Record<string, number>; // Keyed by continent or "World"
   achievements: string[];
 }
 
-interface LeaderboardEntry {
-  userId: string;
+/**
+ * One finished game, as recorded in the player's stats
+ */
+export interface GameResult {
+  score: number;
+  questionMode: QuestionMode;
+  region: string | null; // Continent, null for the whole world
+  correctAnswers: number;
+  incorrectAnswers: number;
+  achievements: string[]; // IDs unlocked so far, merged into the profile
+  ranked: boolean; // Counts towards best scores, like local high scores
+}
+
+const emptyStats: UserStats = {
+  highScore: 0,
+  gamesPlayed: 0,
+  totalScore: 0,
+  totalCorrect: 0,
+  totalIncorrect: 0,
+  bestByMode: {},
+  bestByRegion: {},
+  achievements: [],
+};
+
+export interface LeaderboardEntry {
+  gameId: string; // Document ID, so submitting a game twice keeps one entry
+  userId: string | null; // Null until the player signs in
   username: string;
   score: number;
-  region?: string;
-  timestamp: number;
+  variant: GameVariant;
+  rulesKey: string; // From getRulesKey; scores only rank against the same key
+  questionMode: QuestionMode;
+  region: string | null; // Continent, null for the whole world
+  subregion: string | null; // Null when the whole region was played
+  timestamp: number; // When the game finished, not when it was uploaded
 }
 
+/**
+ * A finished regular game sent for ranking. The server replays the log and
+ * only ranks the score if the replay earns the same.
+ */
+export interface ScoreSubmission {
+  gameId: string;
+  username: string;
+  score: number; // As shown to the player
+  log: GameLog;
+}
+
+const LEADERBOARD_SIZE = 10;
+
+/**
+ * The larger of two bests for every key the device has. Written with merge,
+ * so keys only the account has stay as they are.
+ */
+const mergeBests = (
+  current: Record<string, number | undefined>,
+  progress: Record<string, number | undefined>
+) =>
+  Object.fromEntries(
+    Object.entries(progress).map(([key, score]) => [
+      key,
+      Math.max(current[key] ?? 0, score ?? 0),
+    ])
+  );
+
 export const userStats = {
-  async updateStats(
-    userId: string,
-    gameScore: number,
-    newAchievements: string[] = []
-  ) {
+  /**
+   * Adds a finished game to the player's stats, once per game ID. Best
+   * scores only ever go up; the transaction retries if another device
+   * writes in between.
+   */
+  async updateStats(userId: string, gameId: string, result: GameResult) {
     const userRef = doc(db, "users", userId);
-    await updateDoc(userRef, {
-      gamesPlayed: increment(1),
-      totalScore: increment(gameScore),
-      highScore: increment(0), // Will be updated in transaction if higher
-      achievements: newAchievements,
+    // Marks the game as counted, so a retried upload is a no-op
+    const gameRef = doc(userRef, "games", gameId);
+    await runTransaction(db, async (transaction) => {
+      // Transactions have to read everything before their first write
+      const [gameSnap, userSnap] = await Promise.all([
+        transaction.get(gameRef),
+        transaction.get(userRef),
+      ]);
+      if (gameSnap.exists()) return;
+
+      const current: UserStats = { ...emptyStats, ...userSnap.data() };
+      transaction.set(gameRef, { score: result.score, countedAt: Date.now() });
+
+      const regionKey = result.region ?? "World";
+      const best = (previous: number | undefined) =>
+        Math.max(previous ?? 0, result.score);
+
+      transaction.set(
+        userRef,
+        {
+          ...(result.ranked && {
+            highScore: best(current.highScore),
+            bestByMode: {
+              [result.questionMode]: best(
+                current.bestByMode[result.questionMode]
+              ),
+            },
+            bestByRegion: {
+              [regionKey]: best(current.bestByRegion[regionKey]),
+            },
+          }),
+          gamesPlayed: current.gamesPlayed + 1,
+          totalScore: current.totalScore + result.score,
+          totalCorrect: current.totalCorrect + result.correctAnswers,
+          totalIncorrect: current.totalIncorrect + result.incorrectAnswers,
+          achievements: arrayUnion(...result.achievements),
+          lastPlayed: serverTimestamp(),
+        },
+        // Merging keeps the other modes and regions in the nested maps
+        { merge: true }
+      );
     });
   },
 
-  async getStats(userId: string): Promise<UserStats> {
+  /**
+   * Merges a device's progress into an account. Totals and bests take the
+   * larger value instead of adding up, so merging the same device twice, or
+   * progress the account already counted, changes nothing.
+   */
+  async mergeProgress(userId: string, progress: ProgressSummary) {
     const userRef = doc(db, "users", userId);
-    const snapshot = await getDocs(
-      query(collection(db, "users"), where("userId", "==", userId))
-    );
-    return snapshot.docs[0].data() as UserStats;
+    await runTransaction(db, async (transaction) => {
+      const current: UserStats = {
+        ...emptyStats,
+        ...(await transaction.get(userRef)).data(),
+      };
+      const larger = (
+        key:
+          | "highScore"
+          | "gamesPlayed"
+          | "totalScore"
+          | "totalCorrect"
+          | "totalIncorrect"
+      ) => Math.max(current[key], progress[key]);
+
+      transaction.set(
+        userRef,
+        {
+          highScore: larger("highScore"),
+          gamesPlayed: larger("gamesPlayed"),
+          totalScore: larger("totalScore"),
+          totalCorrect: larger("totalCorrect"),
+          totalIncorrect: larger("totalIncorrect"),
+          bestByMode: mergeBests(current.bestByMode, progress.bestByMode),
+          bestByRegion: mergeBests(current.bestByRegion, progress.bestByRegion),
+          achievements: arrayUnion(...progress.achievements),
+          lastPlayed: serverTimestamp(),
+        },
+        { merge: true }
+      );
+    });
   },
+
+  /**
+   * Reads a player's stats, or null if they have no profile yet. Fields
+   * added since the profile was created read as zero.
+   */
+  async getStats(userId: string): Promise<UserStats | null> {
+    const snapshot = await getDoc(doc(db, "users", userId));
+    return snapshot.exists()
+      ? { ...emptyStats, ...(snapshot.data() as Partial<UserStats>) }
+      : null;
+  },
+};
+
+/**
+ * Best scores under one set of rules, since scores from different clocks,
+ * lives, modes, options or question counts can't be compared
+ */
+const getTopScores = async (
+  rulesKey: string,
+  filter: QueryFieldFilterConstraint | null,
+  count: number
+): Promise<LeaderboardEntry[]> => {
+  const filters = [
+    where("rulesKey", "==", rulesKey),
+    ...(filter ? [filter] : []),
+  ];
+  const q = query(
+    collection(db, "leaderboard"),
+    ...filters,
+    orderBy("score", "desc"),
+    limit(count)
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((doc) => doc.data() as LeaderboardEntry);
 };
 
 export const leaderboard = {
-  async addScore(entry: Omit<LeaderboardEntry, "timestamp">) {
-    const leaderboardRef = collection(db, "leaderboard");
-    await setDoc(doc(leaderboardRef), {
-      ...entry,
-      timestamp: Date.now(),
-    });
+  /**
+   * Sends a game to the submitScore function, which writes the entry. A game
+   * already on the leaderboard is accepted again without a second entry, so
+   * uploads can be retried safely.
+   */
+  async submitScore(submission: ScoreSubmission) {
+    await httpsCallable(
+      functions,
+      "submitScore"
+    )({ ...submission, log: toJsonLog(submission.log) });
+  },
+
+  getGlobalLeaderboard(rulesKey: string, count = LEADERBOARD_SIZE) {
+    return getTopScores(rulesKey, null, count);
   },
 
-  async getGlobalLeaderboard(limit: number = 10) {
-    const leaderboardRef = collection(db, "leaderboard");
-    const q = query(leaderboardRef, orderBy("score", "desc"), limit(limit));
-    const snapshot = await getDocs(q);
-    return snapshot.docs.map((doc) => doc.data() as LeaderboardEntry);
+  getRegionalLeaderboard(
+    rulesKey: string,
+    region: string,
+    count = LEADERBOARD_SIZE
+  ) {
+    return getTopScores(rulesKey, where("region", "==", region), count);
   },
 
-  async getRegionalLeaderboard(region: string, limit: number = 10) {
-    const leaderboardRef = collection(db, "leaderboard");
-    const q = query(
-      leaderboardRef,
-      where("region", "==", region),
-      orderBy("score", "desc"),
-      limit(limit)
-    );
-    const snapshot = await getDocs(q);
-    return snapshot.docs.map((doc) => doc.data() as LeaderboardEntry);
+  getSubregionalLeaderboard(
+    rulesKey: string,
+    subregion: string,
+    count = LEADERBOARD_SIZE
+  ) {
+    return getTopScores(rulesKey, where("subregion", "==", subregion), count);
   },
 };
@@ -0,0 +1,53 @@
+import { getApp, getApps, initializeApp } from "firebase/app";
+import { connectAuthEmulator, getAuth } from "firebase/auth";
+import { connectFirestoreEmulator, getFirestore } from "firebase/firestore";
+import { connectFunctionsEmulator, getFunctions } from "firebase/functions";
+
+/**
+ * Development builds talk to `firebase emulators:start` unless
+ * NEXT_PUBLIC_FIREBASE_EMULATORS is "false". Setting it to "true" uses the
+ * emulators in any build, e.g. in `npm run test:emulators`.
+ */
+const useEmulators =
+  process.env.NEXT_PUBLIC_FIREBASE_EMULATORS === "true" ||
+  (process.env.NODE_ENV === "development" &&
+    process.env.NEXT_PUBLIC_FIREBASE_EMULATORS !== "false");
+
+// The emulators accept any API key, so a fresh checkout runs without an
+// .env.local; the project ID matches the default in .firebaserc
+const firebaseConfig = {
+  apiKey:
+    process.env.NEXT_PUBLIC_FIREBASE_API_KEY ??
+    (useEmulators ? "emulator" : undefined),
+  authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+  projectId:
+    process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ??
+    (useEmulators ? "flagquest-8228c" : undefined),
+  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+  messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
+  appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+};
+
+const AUTH_EMULATOR_URL =
+  process.env.NEXT_PUBLIC_AUTH_EMULATOR_URL ?? "http://127.0.0.1:9099";
+const FIRESTORE_EMULATOR_HOST =
+  process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST ?? "127.0.0.1:8080";
+const FUNCTIONS_EMULATOR_HOST =
+  process.env.NEXT_PUBLIC_FUNCTIONS_EMULATOR_HOST ?? "127.0.0.1:5001";
+
+// Hot reloads re-run this module, so reuse the app if it already exists
+const isFirstLoad = getApps().length === 0;
+const app = isFirstLoad ? initializeApp(firebaseConfig) : getApp();
+
+export const auth = getAuth(app);
+export const db = getFirestore(app);
+export const functions = getFunctions(app);
+
+// Emulators can only be connected once, before the first request
+if (useEmulators && isFirstLoad) {
+  const [firestoreHost, firestorePort] = FIRESTORE_EMULATOR_HOST.split(":");
+  const [functionsHost, functionsPort] = FUNCTIONS_EMULATOR_HOST.split(":");
+  connectAuthEmulator(auth, AUTH_EMULATOR_URL, { disableWarnings: true });
+  connectFirestoreEmulator(db, firestoreHost, Number(firestorePort));
+  connectFunctionsEmulator(functions, functionsHost, Number(functionsPort));
+}
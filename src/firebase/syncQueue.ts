@@ -0,0 +1,161 @@
+import { FirebaseError } from "firebase/app";
+import { auth } from "@/firebase/firebase";
+import {
+  GameResult,
+  ScoreSubmission,
+  leaderboard,
+  userStats,
+} from "@/firebase/Firestore";
+import {
+  deleteSyncItem,
+  loadSyncQueue,
+  putSyncItems,
+} from "@/library/localDatabase";
+
+const RETRY_DELAY = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+interface SyncItemBase {
+  id: string; // Kind and game ID, so queueing a game twice keeps one item
+  gameId: string;
+  queuedAt: number;
+  attempts: number; // Failed uploads so far
+  nextAttemptAt: number; // Earliest time of the next upload
+}
+
+/**
+ * A finished game's result waiting to be uploaded. Uploads are idempotent
+ * per game ID, so an item that fails after the write went through is
+ * harmless to retry.
+ */
+export type SyncItem = SyncItemBase &
+  (
+    | { kind: "leaderboard"; submission: ScoreSubmission }
+    | { kind: "stats"; userId: string; isGuest: boolean; result: GameResult }
+  );
+
+type NewSyncItem =
+  | { kind: "leaderboard"; gameId: string; submission: ScoreSubmission }
+  | {
+      kind: "stats";
+      gameId: string;
+      userId: string;
+      isGuest: boolean;
+      result: GameResult;
+    };
+
+export const queueResults = (items: NewSyncItem[], now: number) =>
+  putSyncItems<SyncItem>(
+    items.map((item) => ({
+      ...item,
+      id: `${item.kind}:${item.gameId}`,
+      queuedAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    }))
+  );
+
+export const loadPendingResults = () => loadSyncQueue<SyncItem>();
+
+const upload = (item: SyncItem): Promise<void> =>
+  item.kind === "leaderboard"
+    ? leaderboard.submitScore(item.submission)
+    : userStats.updateStats(item.userId, item.gameId, item.result);
+
+/**
+ * Stats can only be written by their own player, so they wait until that
+ * player is signed in again
+ */
+const canUpload = (item: SyncItem, now: number, force: boolean): boolean =>
+  (force || item.nextAttemptAt <= now) &&
+  (item.kind === "leaderboard" || auth.currentUser?.uid === item.userId);
+
+/**
+ * Whether an upload was turned down for good, e.g. because a score's replay
+ * didn't add up or Firestore can't accept the write. Retrying would only be
+ * turned down again.
+ */
+const isRejected = (error: unknown): error is FirebaseError =>
+  error instanceof FirebaseError &&
+  (error.code === "invalid-argument" ||
+    error.code === "functions/invalid-argument" ||
+    error.code === "functions/failed-precondition");
+
+/**
+ * A guest account can't be signed in to again once it signed out or another
+ * account signed in, so its stats would wait forever
+ */
+const isOrphaned = (item: SyncItem): boolean =>
+  item.kind === "stats" &&
+  item.isGuest &&
+  auth.currentUser?.uid !== item.userId;
+
+let currentSync: Promise<SyncItem[]> | null = null;
+
+interface SyncOptions {
+  force?: boolean;
+  /** Told about items that were turned down for good and dropped */
+  onRejected?: (item: SyncItem, error: FirebaseError) => void;
+}
+
+/**
+ * Uploads every item that is due, oldest first, and returns what is still
+ * pending. Failures back off exponentially up to five minutes; `force`
+ * retries without waiting. Calls made while a sync is running share its
+ * result.
+ */
+export const syncResults = ({
+  force = false,
+  onRejected,
+}: SyncOptions = {}): Promise<SyncItem[]> => {
+  currentSync ??= (async () => {
+    const now = Date.now();
+    // Until the saved session is restored, a guest would look signed out
+    await auth.authStateReady();
+    const items: SyncItem[] = [];
+    for (const item of await loadPendingResults()) {
+      if (isOrphaned(item)) {
+        await deleteSyncItem(item.id);
+      } else {
+        items.push(item);
+      }
+    }
+    items.sort((a, b) => a.queuedAt - b.queuedAt);
+    if (typeof navigator !== "undefined" && !navigator.onLine) return items;
+
+    const pending: SyncItem[] = [];
+    for (const item of items) {
+      if (!canUpload(item, now, force)) {
+        pending.push(item);
+        continue;
+      }
+
+      try {
+        await upload(item);
+        await deleteSyncItem(item.id);
+      } catch (error) {
+        console.error(`Error uploading ${item.id}:`, error);
+        if (isRejected(error)) {
+          await deleteSyncItem(item.id);
+          onRejected?.(item, error);
+          continue;
+        }
+
+        const attempts = item.attempts + 1;
+        const retry = {
+          ...item,
+          attempts,
+          nextAttemptAt:
+            now + Math.min(RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY),
+        };
+        await putSyncItems([retry]);
+        pending.push(retry);
+      }
+    }
+    return pending;
+  })().finally(() => {
+    currentSync = null;
+  });
+
+  return currentSync;
+};
@@ -0,0 +1,205 @@
+import { Country } from "@/library/gameTypes";
+import { AnswerEvent } from "@/library/answerHistory";
+import { GameEvent, GameSnapshot } from "@/library/gameEngine";
+import { AchievementRecord } from "@/library/localDatabase";
+
+/**
+ * What an achievement condition can look at when it is evaluated
+ */
+export interface AchievementContext {
+  event: GameEvent; // Event that triggered the evaluation
+  game: GameSnapshot; // Game the event came from
+  history: AnswerEvent[]; // Every answer ever given, including this one
+  countries: Country[];
+  now: number;
+}
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  goal: number; // Unlocks once progress reaches this
+  unit?: "%"; // Shown after the progress instead of "/ goal"
+  hidden?: boolean; // Name and description stay secret until unlocked
+  /** Current progress; stored progress never goes down */
+  getProgress: (context: AchievementContext) => number;
+}
+
+const SPEED_LIMIT = 2000;
+
+const countCorrectAnswersUnder = (game: GameSnapshot, ms: number): number =>
+  game.answers.filter((answer) => answer.correct && answer.responseTime < ms)
+    .length;
+
+/**
+ * Share of a continent's countries answered correctly at least once, in
+ * percent
+ */
+const getContinentCompletion = (
+  { history, countries }: AchievementContext,
+  continent: string
+): number => {
+  const pool = countries.filter((c) => c.continent === continent);
+  if (pool.length === 0) return 0;
+
+  const known = new Set(
+    history
+      .filter((event) => event.correct && event.continent === continent)
+      .map((event) => event.country)
+  );
+  const completed = pool.filter((country) => known.has(country.name)).length;
+  return Math.floor((completed / pool.length) * 100);
+};
+
+const continentAchievement = (
+  id: string,
+  continent: string,
+  name: string
+): AchievementDefinition => ({
+  id,
+  name,
+  description: `Answer every country of ${continent} correctly`,
+  goal: 100,
+  unit: "%",
+  getProgress: (context) => getContinentCompletion(context, continent),
+});
+
+export const achievementDefinitions: AchievementDefinition[] = [
+  {
+    id: "first_win",
+    name: "First Victory",
+    description: "Complete your first game",
+    goal: 1,
+    getProgress: ({ event }) => (event.type === "gameOver" ? 1 : 0),
+  },
+  {
+    id: "perfect_streak",
+    name: "Perfect Streak",
+    description: "Get 10 correct answers in a row",
+    goal: 10,
+    getProgress: ({ game }) => game.bestStreak,
+  },
+  {
+    id: "speed_demon",
+    name: "Speed Demon",
+    description: "Answer correctly in under 2 seconds",
+    goal: 1,
+    getProgress: ({ game }) =>
+      Math.min(countCorrectAnswersUnder(game, SPEED_LIMIT), 1),
+  },
+  {
+    id: "lightning_round",
+    name: "Lightning Round",
+    description: "Answer 10 questions correctly in under 2 seconds in one game",
+    goal: 10,
+    getProgress: ({ game }) => countCorrectAnswersUnder(game, SPEED_LIMIT),
+  },
+  {
+    id: "perfect_game",
+    name: "Flawless",
+    description: "Finish a game of at least 10 questions without a mistake",
+    goal: 1,
+    getProgress: ({ event, game }) =>
+      event.type === "gameOver" &&
+      game.answers.length >= 10 &&
+      game.answers.every((answer) => answer.correct)
+        ? 1
+        : 0,
+  },
+  {
+    id: "centurion",
+    name: "Centurion",
+    description: "Give 100 correct answers",
+    goal: 100,
+    getProgress: ({ history }) =>
+      history.filter((event) => event.correct).length,
+  },
+  {
+    id: "regular",
+    name: "Regular",
+    description: "Play on 7 different days",
+    goal: 7,
+    getProgress: ({ history }) =>
+      new Set(
+        history.map((event) =>
+          new Date(event.timestamp).toLocaleDateString("en-CA")
+        )
+      ).size,
+  },
+  continentAchievement("africa_expert", "Africa", "African Explorer"),
+  continentAchievement("asia_expert", "Asia", "Asian Explorer"),
+  continentAchievement("europe_expert", "Europe", "European Explorer"),
+  continentAchievement(
+    "north_america_expert",
+    "North America",
+    "North American Explorer"
+  ),
+  continentAchievement(
+    "south_america_expert",
+    "South America",
+    "South American Explorer"
+  ),
+  continentAchievement("oceania_expert", "Oceania", "Oceanian Explorer"),
+  {
+    id: "night_owl",
+    name: "Night Owl",
+    description: "Answer correctly between midnight and 4 AM",
+    goal: 1,
+    hidden: true,
+    getProgress: ({ event, now }) =>
+      event.type === "answer" &&
+      event.record.correct &&
+      new Date(now).getHours() < 4
+        ? 1
+        : 0,
+  },
+  {
+    id: "last_breath",
+    name: "Last Breath",
+    description: "Run out the clock with a single life left",
+    goal: 1,
+    hidden: true,
+    getProgress: ({ event, game }) =>
+      event.type === "gameOver" && event.reason === "time" && game.lives === 1
+        ? 1
+        : 0,
+  },
+];
+
+/**
+ * Re-evaluates every achievement that isn't unlocked yet. Returns the
+ * records whose progress changed and the definitions unlocked just now.
+ */
+export const evaluateAchievements = (
+  records: Record<string, AchievementRecord>,
+  context: AchievementContext
+): {
+  changed: AchievementRecord[];
+  unlocked: AchievementDefinition[];
+} => {
+  const changed: AchievementRecord[] = [];
+  const unlocked: AchievementDefinition[] = [];
+
+  achievementDefinitions.forEach((definition) => {
+    const record = records[definition.id];
+    if (record?.unlocked) return;
+
+    const previous = record?.progress ?? 0;
+    const progress = Math.min(
+      Math.max(previous, definition.getProgress(context)),
+      definition.goal
+    );
+    if (progress === previous) return;
+
+    const isUnlocked = progress >= definition.goal;
+    changed.push({
+      id: definition.id,
+      unlocked: isUnlocked,
+      unlockedAt: isUnlocked ? context.now : null,
+      progress,
+    });
+    if (isUnlocked) unlocked.push(definition);
+  });
+
+  return { changed, unlocked };
+};
@@ -0,0 +1,122 @@
+import { QuestionMode } from "@/library/gameTypes";
+import { addAnswer, loadAnswers } from "@/library/localDatabase";
+
+/**
+ * A single answered question, appended by handleAnswer
+ */
+export interface AnswerEvent {
+  gameId: string; // Groups the events of one game
+  timestamp: number;
+  questionMode: QuestionMode;
+  country: string; // Correct answer
+  continent: string;
+  subregion: string;
+  selected: string; // Name picked or typed
+  correct: boolean;
+  responseTime: number; // Milliseconds
+}
+
+export interface AccuracyStats {
+  label: string;
+  correct: number;
+  total: number;
+}
+
+export interface ConfusionPair {
+  country: string; // What was asked
+  selected: string; // What was picked instead
+  count: number;
+}
+
+export const loadAnswerHistory = async (): Promise<AnswerEvent[]> => {
+  try {
+    return await loadAnswers();
+  } catch (error) {
+    console.error("Error loading answer history:", error);
+    return [];
+  }
+};
+
+export const saveAnswerEvent = (event: AnswerEvent) =>
+  addAnswer(event).catch((error) =>
+    console.error("Error saving answer:", error)
+  );
+
+/**
+ * Accuracy grouped by continent or subregion, weakest first
+ */
+export const getAccuracyBy = (
+  events: AnswerEvent[],
+  key: "continent" | "subregion"
+): AccuracyStats[] => {
+  const groups = new Map<string, AccuracyStats>();
+
+  events.forEach((event) => {
+    const label = event[key];
+    const stats = groups.get(label) ?? { label, correct: 0, total: 0 };
+    stats.total++;
+    if (event.correct) stats.correct++;
+    groups.set(label, stats);
+  });
+
+  return [...groups.values()].sort(
+    (a, b) => a.correct / a.total - b.correct / b.total
+  );
+};
+
+/**
+ * Mean response time in milliseconds, or null with no history
+ */
+export const getAverageResponseTime = (
+  events: AnswerEvent[]
+): number | null => {
+  if (events.length === 0) return null;
+  const total = events.reduce((sum, event) => sum + event.responseTime, 0);
+  return total / events.length;
+};
+
+/**
+ * Number of distinct games played per local calendar day, oldest first
+ */
+export const getGamesPerDay = (
+  events: AnswerEvent[]
+): Array<{ date: string; games: number }> => {
+  const days = new Map<string, Set<string>>();
+
+  events.forEach((event) => {
+    const date = new Date(event.timestamp).toLocaleDateString("en-CA");
+    const games = days.get(date) ?? new Set<string>();
+    games.add(event.gameId);
+    days.set(date, games);
+  });
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, games]) => ({ date, games: games.size }));
+};
+
+/**
+ * Wrong answers grouped by what was asked and what was picked, most
+ * frequent first
+ */
+export const getConfusionPairs = (
+  events: AnswerEvent[],
+  count: number
+): ConfusionPair[] => {
+  const pairs = new Map<string, ConfusionPair>();
+
+  events
+    .filter((event) => !event.correct)
+    .forEach((event) => {
+      const key = `${event.country}\n${event.selected}`;
+      const pair = pairs.get(key) ?? {
+        country: event.country,
+        selected: event.selected,
+        count: 0,
+      };
+      pair.count++;
+      pairs.set(key, pair);
+    });
+
+  return [...pairs.values()].sort((a, b) => b.count - a.count).slice(0, count);
+};
@@ -0,0 +1,166 @@
+import { Country } from "@/library/gameTypes";
+
+/**
+ * Alternative names accepted for a country, keyed by the name used in
+ * /countries.json. Entries are normalised before comparison, so case and
+ * accents don't matter here.
+ */
+export const countryAliases: Record<string, string[]> = {
+  Bahamas: ["The Bahamas"],
+  "Bosnia and Herzegovina": ["Bosnia", "BiH"],
+  Brunei: ["Brunei Darussalam"],
+  "Central African Republic": ["CAR"],
+  China: ["PRC", "People's Republic of China"],
+  "Congo, Democratic Republic of the": [
+    "Democratic Republic of the Congo",
+    "DR Congo",
+    "DRC",
+    "Congo-Kinshasa",
+    "Zaire",
+  ],
+  "Congo, Republic of the": [
+    "Republic of the Congo",
+    "Congo",
+    "Congo-Brazzaville",
+  ],
+  "Czech Republic": ["Czechia"],
+  "East Timor": ["Timor-Leste"],
+  Eswatini: ["Swaziland"],
+  Gambia: ["The Gambia"],
+  "Guinea-Bissau": ["Guinea Bissau"],
+  "Ivory Coast": ["Côte d'Ivoire", "Cote d'Ivoire"],
+  Iran: ["Persia"],
+  "Korea, North": ["North Korea", "DPRK"],
+  "Korea, South": ["South Korea", "Korea", "ROK"],
+  Laos: ["Lao PDR"],
+  Micronesia: ["Federated States of Micronesia", "FSM"],
+  Moldova: ["Republic of Moldova"],
+  Myanmar: ["Burma"],
+  Netherlands: ["Holland", "The Netherlands"],
+  "North Macedonia": ["Macedonia"],
+  Palestine: ["State of Palestine"],
+  Russia: ["Russian Federation"],
+  "Saint Kitts and Nevis": ["St Kitts and Nevis", "St. Kitts and Nevis"],
+  "Saint Lucia": ["St Lucia", "St. Lucia"],
+  "Saint Vincent and the Grenadines": [
+    "St Vincent and the Grenadines",
+    "St. Vincent and the Grenadines",
+    "Saint Vincent",
+  ],
+  "Sao Tome and Principe": ["São Tomé and Príncipe"],
+  Syria: ["Syrian Arab Republic"],
+  "Timor-Leste": ["East Timor"],
+  Turkey: ["Türkiye", "Turkiye"],
+  "United Arab Emirates": ["UAE", "Emirates"],
+  "United Kingdom": ["UK", "Great Britain", "Britain", "GB"],
+  "United States": [
+    "USA",
+    "US",
+    "United States of America",
+    "America",
+  ],
+  "Vatican City": ["Vatican", "Holy See"],
+  Vietnam: ["Viet Nam"],
+};
+
+/**
+ * Normalises free text for comparison: lowercases, strips diacritics,
+ * drops punctuation and a leading "the", and collapses whitespace
+ */
+export const normalizeAnswer = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^the /, "");
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Number of typos tolerated for an answer of the given length. Short names
+ * must match exactly, otherwise "Mali" would accept "Bali" and so on.
+ */
+const getTypoTolerance = (length: number): number => {
+  if (length <= 4) return 0;
+  if (length <= 8) return 1;
+  return 2;
+};
+
+/**
+ * All normalised spellings accepted for a country
+ */
+export const getAcceptedAnswers = (country: Country): string[] => {
+  const names = [country.name, ...(countryAliases[country.name] ?? [])];
+
+  // "Korea, South" style names are also accepted in natural order
+  const [base, prefix] = country.name.split(", ");
+  if (prefix) {
+    names.push(`${prefix} ${base}`);
+  }
+
+  return [...new Set(names.map(normalizeAnswer))];
+};
+
+/**
+ * Resolves a typed answer to the country it most plausibly names.
+ * Exact matches (including aliases) against any country win first, so that
+ * "Niger" is never read as a typo of "Nigeria". Otherwise the closest
+ * country within the typo tolerance is returned, preferring the expected
+ * answer on ties. Returns null if nothing is close enough.
+ */
+export const matchTypedAnswer = (
+  text: string,
+  expected: Country,
+  countries: Country[]
+): Country | null => {
+  const answer = normalizeAnswer(text);
+  if (!answer) return null;
+
+  const candidates = [expected, ...countries.filter((c) => c !== expected)];
+
+  const exactMatch = candidates.find((country) =>
+    getAcceptedAnswers(country).includes(answer)
+  );
+  if (exactMatch) return exactMatch;
+
+  let bestMatch: Country | null = null;
+  let bestDistance = Infinity;
+
+  for (const country of candidates) {
+    for (const accepted of getAcceptedAnswers(country)) {
+      const distance = editDistance(answer, accepted);
+      if (
+        distance <= getTypoTolerance(accepted.length) &&
+        distance < bestDistance
+      ) {
+        bestMatch = country;
+        bestDistance = distance;
+      }
+    }
+  }
+
+  return bestMatch;
+};
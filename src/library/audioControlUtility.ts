@@ -211,6 +211,32 @@ export const useAudioControl = () => {
     }
   }, [stopAudio]);
 
+  /**
+   * Pauses background music without rewinding it
+   */
+  const pauseBackgroundMusic = useCallback(() => {
+    const { audioRef, isPlaying } = bgMusicRef.current;
+    if (audioRef && isPlaying) {
+      audioRef.pause();
+      bgMusicRef.current.isPlaying = false;
+    }
+  }, []);
+
+  /**
+   * Resumes background music from where pauseBackgroundMusic left it
+   */
+  const resumeBackgroundMusic = useCallback(async () => {
+    const { audioRef, isPlaying } = bgMusicRef.current;
+    if (!audioRef || isPlaying) return;
+
+    try {
+      await audioRef.play();
+      bgMusicRef.current.isPlaying = true;
+    } catch (error) {
+      console.error("Error resuming background music:", error);
+    }
+  }, []);
+
   /**
    * Adjusts background music volume with ducking consideration
    */
@@ -489,6 +515,8 @@ export const useAudioControl = () => {
     getAudioMetadata,
     playBackgroundMusic,
     stopBackgroundMusic,
+    pauseBackgroundMusic,
+    resumeBackgroundMusic,
     setBackgroundMusicVolume,
     getBackgroundMusicState,
   };
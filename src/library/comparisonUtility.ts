@@ -0,0 +1,54 @@
+import { Country } from "@/library/gameTypes";
+import { Random } from "@/library/random";
+
+/**
+ * Describes one numeric attribute that two countries can be compared on
+ */
+export interface ComparisonMetric {
+  question: string; // Prompt shown above the two flags
+  getValue: (country: Country) => number | null; // Null when the value is unknown
+  format: (value: number) => string; // Display format for revealed values
+}
+
+export const comparisonMetrics: Record<
+  "compareArea" | "compareGdp",
+  ComparisonMetric
+> = {
+  compareArea: {
+    question: "Which country is bigger?",
+    getValue: (country) => country.totalArea ?? null,
+    format: (value) => `${value.toLocaleString()} km²`,
+  },
+  compareGdp: {
+    question: "Which country has the higher GDP per capita?",
+    getValue: (country) => country.gdpPerCapita ?? null,
+    format: (value) => `$${value.toLocaleString()}`,
+  },
+};
+
+/**
+ * Picks an opponent for the given country from the pool. The opponent must
+ * have a known value that differs from the country's, so every pair has
+ * exactly one correct answer. Returns null if no such country exists.
+ */
+export const pickComparisonOpponent = (
+  country: Country,
+  pool: Country[],
+  metric: ComparisonMetric,
+  random: Random
+): Country | null => {
+  const value = metric.getValue(country);
+  if (value === null) return null;
+
+  const candidates = pool.filter((c) => {
+    const candidateValue = metric.getValue(c);
+    return (
+      c.name !== country.name &&
+      candidateValue !== null &&
+      candidateValue !== value
+    );
+  });
+
+  if (candidates.length === 0) return null;
+  return random.pick(candidates);
+};
@@ -0,0 +1,25 @@
+import { Country } from "@/library/gameTypes";
+
+/**
+ * Adds the attributes from /countries_v2.json and the look-alike flags from
+ * /flag-similarity.json to the countries in /countries.json. Seeded games
+ * depend on the order of the list, so it stays in the order of
+ * /countries.json wherever the game runs.
+ */
+export const mergeCountryData = (
+  countries: Country[],
+  extras: Country[],
+  similarity: Record<string, string[]>
+): Country[] => {
+  const extrasByName = new Map(extras.map((c) => [c.name, c]));
+  return countries.map((country) => {
+    const extra = extrasByName.get(country.name);
+    return {
+      ...country,
+      totalArea: extra?.totalArea,
+      gdpPerCapita: extra?.gdpPerCapita ?? null,
+      iconicPlaces: extra?.iconicPlaces ?? [],
+      similarFlags: similarity[country.name] ?? [],
+    };
+  });
+};
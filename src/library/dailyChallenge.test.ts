@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { getDailyCountries } from "@/library/dailyChallenge";
+import { countries } from "@/test/playGame";
+
+const dailyKey = "2024-11-20";
+
+// Every player gets this set on this day. If it changes, past challenges
+// change with it, so only update it together with the country data.
+const expected = [
+  "Afghanistan",
+  "Palestine",
+  "Saint Vincent and the Grenadines",
+  "Japan",
+  "Croatia",
+  "Papua New Guinea",
+  "Ghana",
+  "Singapore",
+  "Libya",
+  "Morocco",
+];
+
+const pick = (list = countries, key = dailyKey) =>
+  getDailyCountries(list, key).map((country) => country.name);
+
+describe("getDailyCountries", () => {
+  it("picks the same countries for a day", () => {
+    expect(pick()).toEqual(expected);
+  });
+
+  it("doesn't depend on the order of the country list", () => {
+    expect(pick([...countries].reverse())).toEqual(expected);
+  });
+
+  it("doesn't depend on the device's locale", () => {
+    const { localeCompare } = String.prototype;
+    String.prototype.localeCompare = function (this: string, that: string) {
+      return -localeCompare.call(this, that);
+    };
+    try {
+      expect(pick()).toEqual(expected);
+    } finally {
+      String.prototype.localeCompare = localeCompare;
+    }
+  });
+
+  it("picks a different set the next day", () => {
+    expect(pick(countries, "2024-11-21")).not.toEqual(expected);
+  });
+});
@@ -0,0 +1,89 @@
+import { Country } from "@/library/gameTypes";
+import { createRandom } from "@/library/random";
+import { getValue, putValue } from "@/library/localDatabase";
+
+export const DAILY_QUESTION_COUNT = 10;
+
+const STORAGE_KEY = "dailyResults";
+
+/**
+ * Stored outcome of one day's challenge
+ */
+export interface DailyResult {
+  score: number;
+  correct: number; // Number of correctly answered questions
+  total: number; // Number of questions in the challenge
+  completed: boolean; // False while the attempt is still in progress
+}
+
+/**
+ * UTC date key ("YYYY-MM-DD") identifying a daily challenge
+ */
+export const getDailyKey = (date: Date = new Date()): string =>
+  date.toISOString().slice(0, 10);
+
+/**
+ * Seed shared by every player for the given day
+ */
+export const getDailySeed = (dailyKey: string): string => `daily-${dailyKey}`;
+
+/**
+ * The fixed question set for a day. Countries are sorted by name first so
+ * the result doesn't depend on the order of /countries.json, and by code
+ * point rather than locale so it doesn't depend on the device either.
+ */
+export const getDailyCountries = (
+  countries: Country[],
+  dailyKey: string
+): Country[] => {
+  const random = createRandom(`${getDailySeed(dailyKey)}-questions`);
+  const sorted = [...countries].sort((a, b) => (a.name < b.name ? -1 : 1));
+  return random.shuffle(sorted).slice(0, DAILY_QUESTION_COUNT);
+};
+
+export const loadDailyResults = async (): Promise<
+  Record<string, DailyResult>
+> => {
+  try {
+    return (await getValue("progress", STORAGE_KEY)) ?? {};
+  } catch (error) {
+    console.error("Error loading daily results:", error);
+    return {};
+  }
+};
+
+/**
+ * Stores the result of a day's challenge and returns the updated results
+ */
+export const saveDailyResult = (
+  results: Record<string, DailyResult>,
+  dailyKey: string,
+  result: DailyResult
+): Record<string, DailyResult> => {
+  const updated = { ...results, [dailyKey]: result };
+  putValue("progress", STORAGE_KEY, updated).catch((error) =>
+    console.error("Error saving daily results:", error)
+  );
+  return updated;
+};
+
+/**
+ * Number of consecutive days played, ending today. A streak that ended
+ * yesterday still counts until today's challenge is missed.
+ */
+export const getDailyStreak = (
+  results: Record<string, DailyResult>,
+  today: string = getDailyKey()
+): number => {
+  const day = new Date(`${today}T00:00:00Z`);
+  if (!results[today]) {
+    day.setUTCDate(day.getUTCDate() - 1);
+  }
+
+  let streak = 0;
+  while (results[getDailyKey(day)]) {
+    streak++;
+    day.setUTCDate(day.getUTCDate() - 1);
+  }
+  return streak;
+};
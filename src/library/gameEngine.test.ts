@@ -0,0 +1,410 @@
+import { describe, expect, it } from "vitest";
+import { Country } from "@/library/gameTypes";
+import {
+  EngineSettings,
+  FEEDBACK_DELAY,
+  Game,
+  createGame,
+} from "@/library/gameEngine";
+import { getDailyCountries } from "@/library/dailyChallenge";
+import { reviewCard } from "@/library/spacedRepetition";
+
+const makeCountry = (
+  name: string,
+  continent: string,
+  subregion: string,
+  totalArea: number
+): Country => ({
+  name,
+  capital: `${name} City`,
+  continent,
+  subregion,
+  flag: `${name.toLowerCase()}.png`,
+  totalArea,
+  gdpPerCapita: totalArea * 2,
+  iconicPlaces: [],
+  similarFlags: [],
+});
+
+const countries: Country[] = [
+  makeCountry("Alpha", "Europe", "Northern Europe", 100),
+  makeCountry("Bravo", "Europe", "Northern Europe", 200),
+  makeCountry("Charlie", "Europe", "Western Europe", 300),
+  makeCountry("Delta", "Europe", "Western Europe", 400),
+  makeCountry("Echo", "Asia", "Eastern Asia", 500),
+  makeCountry("Foxtrot", "Asia", "Eastern Asia", 600),
+  makeCountry("Golf", "Asia", "Southern Asia", 700),
+  makeCountry("Hotel", "Asia", "Southern Asia", 800),
+  makeCountry("India", "Africa", "Western Africa", 900),
+  makeCountry("Juliett", "Africa", "Western Africa", 1000),
+  makeCountry("Kilo", "Africa", "Eastern Africa", 1100),
+  makeCountry("Lima", "Africa", "Eastern Africa", 1200),
+];
+
+const baseSettings: EngineSettings = {
+  countries,
+  questionMode: "name",
+  difficulty: "normal",
+  timeLimit: 60,
+  lives: 3,
+  optionCount: 4,
+  questionCount: null,
+  region: null,
+  subregion: null,
+  dailyKey: null,
+  questionPool: null,
+  learningProgress: null,
+};
+
+const start = (settings: Partial<EngineSettings> = {}, seed = "seed") => {
+  const game = createGame({ ...baseSettings, ...settings }, seed);
+  game.tick(0);
+  return game;
+};
+
+const getQuestion = (game: Game) => {
+  const { question } = game.getSnapshot();
+  if (!question) throw new Error("No question is open");
+  return question;
+};
+
+const answerCorrectly = (game: Game, at: number) =>
+  game.answer(getQuestion(game).country, at);
+
+const answerWrongly = (game: Game, at: number) => {
+  const question = getQuestion(game);
+  return game.answer(
+    question.options.find((o) => o.name !== question.country.name)!,
+    at
+  );
+};
+
+describe("createGame", () => {
+  it("asks the first question on the first tick", () => {
+    const game = createGame(baseSettings, "seed");
+    expect(game.getSnapshot().status).toBe("ready");
+
+    game.tick(0);
+    const question = getQuestion(game);
+    expect(game.getSnapshot().status).toBe("question");
+    expect(question.askedAt).toBe(0);
+    expect(question.options).toHaveLength(4);
+    expect(question.options.map((o) => o.name)).toContain(
+      question.country.name
+    );
+    expect(new Set(question.options.map((o) => o.name)).size).toBe(4);
+  });
+
+  it("asks the same questions for the same seed", () => {
+    const play = (seed: string) => {
+      const game = start({ lives: Infinity }, seed);
+      const asked: string[] = [];
+      for (let i = 0; i < 5; i++) {
+        const question = getQuestion(game);
+        asked.push(
+          `${question.country.name}:${question.options.map((o) => o.name)}`
+        );
+        answerCorrectly(game, i * 10000 + 1000);
+        game.tick(i * 10000 + 1000 + FEEDBACK_DELAY);
+      }
+      return asked;
+    };
+
+    expect(play("same")).toEqual(play("same"));
+    expect(play("same")).not.toEqual(play("other"));
+  });
+
+  it("offers as many options as the option count", () => {
+    for (const optionCount of [2, 4, 6, 8]) {
+      expect(getQuestion(start({ optionCount })).options).toHaveLength(
+        optionCount
+      );
+    }
+  });
+
+  it("only asks countries of the chosen region", () => {
+    const game = start({ region: "Asia", lives: Infinity, timeLimit: null });
+    for (let i = 0; i < 4; i++) {
+      expect(getQuestion(game).country.continent).toBe("Asia");
+      answerCorrectly(game, i * 10000 + 1000);
+      game.tick(i * 10000 + 1000 + FEEDBACK_DELAY);
+    }
+    expect(game.getSnapshot().status).toBe("over");
+    expect(game.getSnapshot().gameOverReason).toBe("completed");
+  });
+});
+
+describe("answer", () => {
+  it("scores correct answers and keeps the streak", () => {
+    const game = start();
+    const record = answerCorrectly(game, 2000)!;
+
+    expect(record.correct).toBe(true);
+    expect(record.responseTime).toBe(2000);
+    expect(record.score!.total).toBeGreaterThan(0);
+    const snapshot = game.getSnapshot();
+    expect(snapshot.status).toBe("feedback");
+    expect(snapshot.score).toBe(record.score!.total);
+    expect(snapshot.streak).toBe(1);
+    expect(snapshot.correctAnswers).toBe(1);
+    expect(snapshot.lives).toBe(3);
+  });
+
+  it("takes a life and resets the streak for a wrong answer", () => {
+    const game = start();
+    answerCorrectly(game, 1000);
+    game.tick(1000 + FEEDBACK_DELAY);
+    const record = answerWrongly(game, 4000)!;
+
+    expect(record.correct).toBe(false);
+    expect(record.score).toBeNull();
+    expect(game.getSnapshot().lives).toBe(2);
+    expect(game.getSnapshot().streak).toBe(0);
+    expect(game.getSnapshot().bestStreak).toBe(1);
+  });
+
+  it("ends the game once the last life is lost", () => {
+    const game = start({ timeLimit: null });
+    for (let i = 0; i < 3; i++) {
+      expect(game.getSnapshot().status).toBe("question");
+      answerWrongly(game, i * 10000 + 1000);
+      game.tick(i * 10000 + 1000 + FEEDBACK_DELAY);
+    }
+
+    const snapshot = game.getSnapshot();
+    expect(snapshot.lives).toBe(0);
+    expect(snapshot.status).toBe("over");
+    expect(snapshot.gameOverReason).toBe("lives");
+  });
+
+  it("ignores answers while no question is open", () => {
+    const game = start();
+    answerCorrectly(game, 1000);
+    expect(answerCorrectly(game, 1100)).toBeNull();
+    expect(game.getSnapshot().answers).toHaveLength(1);
+  });
+
+  it("ends the game instead of counting an answer after the deadline", () => {
+    const game = start({ timeLimit: 60 });
+    const events: string[] = [];
+    game.subscribe((event) => events.push(event.type));
+
+    expect(answerCorrectly(game, 60000)).toBeNull();
+    const snapshot = game.getSnapshot();
+    expect(snapshot.status).toBe("over");
+    expect(snapshot.gameOverReason).toBe("time");
+    expect(snapshot.score).toBe(0);
+    expect(snapshot.answers).toHaveLength(0);
+    expect(events).toEqual(["tick", "gameOver"]);
+  });
+
+  it("accepts an answer just before the deadline", () => {
+    const game = start({ timeLimit: 60 });
+    expect(answerCorrectly(game, 59999)?.correct).toBe(true);
+  });
+});
+
+describe("tick", () => {
+  it("counts the clock down in whole seconds and ends at zero", () => {
+    const game = start({ timeLimit: 60 });
+    game.tick(1500);
+    expect(game.getSnapshot().timeRemaining).toBe(59);
+    game.tick(59001);
+    expect(game.getSnapshot().timeRemaining).toBe(1);
+    game.tick(60000);
+    expect(game.getSnapshot().status).toBe("over");
+    expect(game.getSnapshot().gameOverReason).toBe("time");
+  });
+
+  it("waits out the feedback delay before the next question", () => {
+    const game = start();
+    answerCorrectly(game, 1000);
+
+    game.tick(1000 + FEEDBACK_DELAY - 1);
+    expect(game.getSnapshot().status).toBe("feedback");
+    game.tick(1000 + FEEDBACK_DELAY);
+    expect(game.getSnapshot().status).toBe("question");
+    expect(getQuestion(game).askedAt).toBe(1000 + FEEDBACK_DELAY);
+  });
+
+  it("ends the game once the question count is reached", () => {
+    const game = start({ questionCount: 3, timeLimit: null });
+    for (let i = 0; i < 3; i++) {
+      answerCorrectly(game, i * 10000 + 1000);
+      game.tick(i * 10000 + 1000 + FEEDBACK_DELAY);
+    }
+
+    const snapshot = game.getSnapshot();
+    expect(snapshot.answers).toHaveLength(3);
+    expect(snapshot.status).toBe("over");
+    expect(snapshot.gameOverReason).toBe("completed");
+  });
+
+  it("does nothing once the game is over", () => {
+    const game = start();
+    game.finish();
+    const snapshot = game.getSnapshot();
+    game.tick(10000);
+    expect(game.getSnapshot()).toBe(snapshot);
+    expect(snapshot.gameOverReason).toBe("finished");
+  });
+});
+
+describe("pause and resume", () => {
+  it("ignores answers, hints and ticks while paused", () => {
+    const game = start();
+    game.pause(1000);
+    expect(game.getSnapshot().isPaused).toBe(true);
+
+    expect(answerCorrectly(game, 2000)).toBeNull();
+    game.revealHint();
+    game.tick(120000);
+    expect(game.getSnapshot().hintUsed).toBe(false);
+    expect(game.getSnapshot().status).toBe("question");
+  });
+
+  it("moves the question's askedAt on by the pause", () => {
+    const game = start();
+    game.pause(1000);
+    game.resume(11000);
+
+    expect(game.getSnapshot().isPaused).toBe(false);
+    expect(getQuestion(game).askedAt).toBe(10000);
+    expect(answerCorrectly(game, 13000)!.responseTime).toBe(3000);
+  });
+
+  it("moves the deadline on by the pause", () => {
+    const game = start({ timeLimit: 60 });
+    game.pause(30000);
+    game.resume(50000);
+
+    game.tick(60000);
+    expect(game.getSnapshot().status).toBe("question");
+    expect(game.getSnapshot().timeRemaining).toBe(20);
+    game.tick(80000);
+    expect(game.getSnapshot().gameOverReason).toBe("time");
+  });
+
+  it("moves the feedback delay on by the pause", () => {
+    const game = start();
+    answerCorrectly(game, 1000);
+    game.pause(1500);
+    game.resume(5000);
+
+    game.tick(5000 + FEEDBACK_DELAY - 600);
+    expect(game.getSnapshot().status).toBe("feedback");
+    game.tick(5000 + FEEDBACK_DELAY - 500);
+    expect(game.getSnapshot().status).toBe("question");
+  });
+});
+
+describe("comparison runs", () => {
+  it("are limited to one life", () => {
+    const game = start({ questionMode: "compareArea", lives: 3 });
+    expect(game.getSnapshot().lives).toBe(1);
+
+    const question = getQuestion(game);
+    expect(question.options).toHaveLength(2);
+    const [a, b] = question.options;
+    expect(question.country.name).toBe(
+      a.totalArea! > b.totalArea! ? a.name : b.name
+    );
+
+    answerWrongly(game, 1000);
+    expect(game.getSnapshot().gameOverReason).toBe("lives");
+  });
+
+  it("keep their lives in daily challenges and retries", () => {
+    expect(
+      start({
+        questionMode: "compareArea",
+        dailyKey: "2024-11-20",
+      }).getSnapshot().lives
+    ).toBe(3);
+    expect(
+      start({
+        questionMode: "compareArea",
+        questionPool: ["Alpha", "Bravo"],
+      }).getSnapshot().lives
+    ).toBe(3);
+  });
+});
+
+describe("daily challenges", () => {
+  it("ask the day's countries in order, whatever the seed", () => {
+    const dailyKey = "2024-11-20";
+    const expected = getDailyCountries(countries, dailyKey).map((c) => c.name);
+    const play = (seed: string) => {
+      const game = start({ dailyKey, lives: Infinity, timeLimit: null }, seed);
+      const asked: string[] = [];
+      while (game.getSnapshot().status !== "over") {
+        asked.push(getQuestion(game).country.name);
+        const at = asked.length * 10000;
+        answerCorrectly(game, at);
+        game.tick(at + FEEDBACK_DELAY);
+      }
+      return asked;
+    };
+
+    expect(play("one")).toEqual(expected);
+    expect(play("two")).toEqual(expected);
+  });
+});
+
+describe("learning sessions", () => {
+  it("ask the most overdue card first", () => {
+    const now = 10 * 60 * 1000;
+    const game = createGame(
+      {
+        ...baseSettings,
+        learningProgress: {
+          Alpha: { box: 2, dueAt: now - 1000, correct: 1, incorrect: 0 },
+          Bravo: { box: 2, dueAt: now - 5000, correct: 1, incorrect: 0 },
+          Charlie: { box: 3, dueAt: now + 60000, correct: 2, incorrect: 0 },
+        },
+      },
+      "seed"
+    );
+    game.tick(now);
+    expect(getQuestion(game).country.name).toBe("Bravo");
+  });
+
+  it("review the answered card and keep revisiting the region", () => {
+    const game = start({
+      region: "Europe",
+      learningProgress: {},
+      lives: Infinity,
+      timeLimit: null,
+    });
+    const first = getQuestion(game).country.name;
+    answerWrongly(game, 1000);
+
+    expect(game.getSnapshot().learningProgress![first]).toEqual(
+      reviewCard(undefined, false, 1000)
+    );
+
+    for (let i = 1; i < 10; i++) {
+      game.tick(i * 10000);
+      expect(game.getSnapshot().status).toBe("question");
+      answerCorrectly(game, i * 10000 + 1000);
+    }
+    expect(game.getSnapshot().answers).toHaveLength(10);
+  });
+
+  it("never repeat a card directly", () => {
+    const game = start({
+      region: "Europe",
+      learningProgress: {},
+      lives: Infinity,
+      timeLimit: null,
+    });
+    let previous = getQuestion(game).country.name;
+    for (let i = 1; i < 8; i++) {
+      answerWrongly(game, i * 10000);
+      game.tick(i * 10000 + FEEDBACK_DELAY);
+      const current = getQuestion(game).country.name;
+      expect(current).not.toBe(previous);
+      previous = current;
+    }
+  });
+});
@@ -0,0 +1,566 @@
+import {
+  AnswerRecord,
+  Country,
+  Difficulty,
+  QuestionMode,
+  isCapitalMode,
+  isComparisonMode,
+  isTriviaMode,
+} from "@/library/gameTypes";
+import { Random, createRandom } from "@/library/random";
+import { matchTypedAnswer } from "@/library/answerMatching";
+import {
+  comparisonMetrics,
+  pickComparisonOpponent,
+} from "@/library/comparisonUtility";
+import { createTriviaPrompt } from "@/library/triviaUtility";
+import { getDailyCountries } from "@/library/dailyChallenge";
+import { ScoringRule, scoreAnswer } from "@/library/scoring";
+import {
+  LearningProgress,
+  pickNextCard,
+  reviewCard,
+} from "@/library/spacedRepetition";
+
+/**
+ * How long the result of an answer stays on screen before the next question
+ */
+export const FEEDBACK_DELAY = 1500;
+
+/**
+ * Everything a game needs to run, independent of any UI
+ */
+export interface EngineSettings {
+  countries: Country[]; // Every country, distractors are drawn from all of them
+  questionMode: QuestionMode;
+  difficulty: Difficulty;
+  timeLimit: number | null; // Seconds, null for no clock
+  lives: number; // Infinity for no lives
+  optionCount: number; // Options per question, comparisons always offer two
+  questionCount: number | null; // Ends the game after this many, null for no limit
+  region: string | null;
+  subregion: string | null;
+  dailyKey: string | null; // Ask the fixed question set of this day
+  questionPool: string[] | null; // Only ask these countries
+  learningProgress: LearningProgress | null; // Set for learning sessions
+  scoringRules?: ScoringRule[]; // Defaults to defaultScoringRules
+}
+
+export interface Question {
+  country: Country; // Correct answer
+  options: Country[];
+  prompt: string | null; // Trivia prompt, if any
+  askedAt: number;
+}
+
+/**
+ * - "ready": created, the first tick starts the clock and asks a question
+ * - "question": waiting for an answer
+ * - "feedback": showing the result of the last answer
+ * - "over": finished, nothing changes any more
+ */
+export type GameStatus = "ready" | "question" | "feedback" | "over";
+
+/**
+ * - "time": the clock ran out
+ * - "lives": the last life was lost
+ * - "completed": no questions were left to ask, or the question count was
+ *   reached
+ * - "finished": the player ended the game
+ */
+export type GameOverReason = "time" | "lives" | "completed" | "finished";
+
+export interface GameSnapshot {
+  status: GameStatus;
+  question: Question | null;
+  selectedAnswer: Country | null;
+  isCorrect: boolean | null;
+  hintUsed: boolean;
+  score: number;
+  lives: number;
+  streak: number;
+  bestStreak: number;
+  correctAnswers: number;
+  askedQuestions: ReadonlySet<string>;
+  answers: AnswerRecord[];
+  timeRemaining: number | null; // Whole seconds, null for no clock
+  isPaused: boolean;
+  learningProgress: LearningProgress | null;
+  gameOverReason: GameOverReason | null;
+}
+
+export type GameEvent =
+  | { type: "question"; question: Question }
+  | { type: "answer"; record: AnswerRecord; streak: number }
+  | { type: "hint" }
+  | { type: "tick"; timeRemaining: number }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "gameOver"; reason: GameOverReason };
+
+export interface Game {
+  getSnapshot: () => GameSnapshot;
+  /** Listens to every event; returns a function that stops listening */
+  subscribe: (listener: (event: GameEvent) => void) => () => void;
+  /** Answers the current question; returns null if no answer is expected */
+  answer: (choice: Country, timestamp: number) => AnswerRecord | null;
+  /** Answers the current question with free text, matched leniently */
+  answerTyped: (text: string, timestamp: number) => AnswerRecord | null;
+  revealHint: () => void;
+  /** Advances the clock and moves on from feedback once it has been shown */
+  tick: (now: number) => void;
+  /** Stops the clock; answers and ticks are ignored until resumed */
+  pause: (now: number) => void;
+  /** Restarts the clock with exactly the time that was left when paused */
+  resume: (now: number) => void;
+  /** Ends the game early, e.g. when a learning session is finished */
+  finish: () => void;
+}
+
+const getRegionCountries = (settings: EngineSettings): Country[] =>
+  settings.countries.filter(
+    (c) =>
+      (!settings.region || c.continent === settings.region) &&
+      (!settings.subregion ||
+        settings.subregion === "All Regions" ||
+        c.subregion === settings.subregion)
+  );
+
+/**
+ * Picks the correct answer plus distractors suited to the difficulty.
+ * Distractors never share a capital or a flag with an option already picked,
+ * so every option can be told apart.
+ */
+const getOptions = (
+  correctAnswer: Country,
+  settings: EngineSettings,
+  random: Random
+): Country[] => {
+  const { countries, questionMode, difficulty, optionCount } = settings;
+  const { shuffle } = random;
+  const options: Country[] = [correctAnswer];
+  const usedNames = new Set<string>([correctAnswer.name]);
+
+  const sameSubregionOptions = shuffle(
+    countries.filter(
+      (c) => c.subregion === correctAnswer.subregion && !usedNames.has(c.name)
+    )
+  );
+
+  const sameRegionOptions = shuffle(
+    countries.filter(
+      (c) =>
+        c.continent === correctAnswer.continent &&
+        c.subregion !== correctAnswer.subregion &&
+        !usedNames.has(c.name)
+    )
+  );
+
+  const otherRegionOptions = shuffle(
+    countries.filter(
+      (c) => c.continent !== correctAnswer.continent && !usedNames.has(c.name)
+    )
+  );
+
+  const neighbourOptions = [
+    ...sameSubregionOptions,
+    ...sameRegionOptions,
+    ...otherRegionOptions,
+  ];
+
+  const getOrderedOptions = (): Country[] => {
+    if (difficulty === "easy") {
+      return [
+        ...otherRegionOptions,
+        ...shuffle([...sameSubregionOptions, ...sameRegionOptions]),
+      ];
+    }
+
+    if (difficulty === "hard") {
+      if (questionMode !== "flag" && questionMode !== "name") {
+        return neighbourOptions;
+      }
+      // A few of the closest look-alikes, so hard games still vary
+      const lookAlikes = shuffle(
+        (correctAnswer.similarFlags ?? [])
+          .slice(0, 6)
+          .map((name) => countries.find((c) => c.name === name))
+          .filter((c): c is Country => c !== undefined)
+      );
+      return [...lookAlikes, ...neighbourOptions];
+    }
+
+    // Capital questions are only challenging when the distractors are
+    // neighbours, so they draw from the same subregion first.
+    return isCapitalMode(questionMode)
+      ? neighbourOptions
+      : [
+          ...shuffle([...sameSubregionOptions, ...sameRegionOptions]),
+          ...otherRegionOptions,
+        ];
+  };
+
+  for (const nextOption of getOrderedOptions()) {
+    if (options.length >= optionCount) break;
+    if (
+      !usedNames.has(nextOption.name) &&
+      !options.some(
+        (o) => o.capital === nextOption.capital || o.flag === nextOption.flag
+      )
+    ) {
+      options.push(nextOption);
+      usedNames.add(nextOption.name);
+    }
+  }
+
+  return shuffle(options);
+};
+
+/**
+ * Starts a game. The same settings and seed always ask the same questions
+ * with the same options, whatever front end drives the game.
+ */
+export const createGame = (settings: EngineSettings, seed: string): Game => {
+  const random = createRandom(seed);
+  const listeners = new Set<(event: GameEvent) => void>();
+  const regionCountries = getRegionCountries(settings);
+  const dailyCountries = settings.dailyKey
+    ? getDailyCountries(settings.countries, settings.dailyKey)
+    : null;
+  const isLearning = settings.learningProgress !== null;
+
+  // Higher-or-lower runs are streak based and end on the first miss
+  const lives =
+    isComparisonMode(settings.questionMode) &&
+    !dailyCountries &&
+    !isLearning &&
+    !settings.questionPool
+      ? Math.min(settings.lives, 1)
+      : settings.lives;
+
+  let deadline: number | null = null;
+  let answeredAt = 0;
+  let pausedAt: number | null = null;
+  let snapshot: GameSnapshot = {
+    status: "ready",
+    question: null,
+    selectedAnswer: null,
+    isCorrect: null,
+    hintUsed: false,
+    score: 0,
+    lives,
+    streak: 0,
+    bestStreak: 0,
+    correctAnswers: 0,
+    askedQuestions: new Set<string>(),
+    answers: [],
+    timeRemaining: settings.timeLimit,
+    isPaused: false,
+    learningProgress: settings.learningProgress,
+    gameOverReason: null,
+  };
+
+  const update = (changes: Partial<GameSnapshot>, event: GameEvent) => {
+    snapshot = { ...snapshot, ...changes };
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const endGame = (reason: GameOverReason) => {
+    if (snapshot.status === "over") return;
+    pausedAt = null;
+    update(
+      { status: "over", gameOverReason: reason, isPaused: false },
+      { type: "gameOver", reason }
+    );
+  };
+
+  const getRemainingCountries = (): Country[] => {
+    // Learning sessions keep revisiting the region instead of exhausting it
+    if (isLearning) return regionCountries;
+
+    return regionCountries.filter(
+      (country) =>
+        !snapshot.askedQuestions.has(country.name) &&
+        (!settings.questionPool || settings.questionPool.includes(country.name))
+    );
+  };
+
+  const pickQuestion = (now: number): Omit<Question, "askedAt"> | null => {
+    const remainingCountries = getRemainingCountries();
+    if (remainingCountries.length === 0) return null;
+
+    const mode = settings.questionMode;
+
+    if (isComparisonMode(mode)) {
+      const metric = comparisonMetrics[mode];
+      for (const country of random.shuffle(remainingCountries)) {
+        const opponent = pickComparisonOpponent(
+          country,
+          regionCountries,
+          metric,
+          random
+        );
+        if (!opponent) continue;
+
+        const winner =
+          metric.getValue(country)! > metric.getValue(opponent)!
+            ? country
+            : opponent;
+        return {
+          country: winner,
+          options: random.shuffle([country, opponent]),
+          prompt: null,
+        };
+      }
+      return null;
+    }
+
+    let correctAnswer = random.pick(remainingCountries);
+    let prompt: string | null = null;
+
+    if (snapshot.learningProgress) {
+      correctAnswer =
+        pickNextCard(
+          remainingCountries,
+          snapshot.learningProgress,
+          now,
+          random,
+          snapshot.question?.country.name ?? null
+        ) ?? correctAnswer;
+    }
+
+    if (dailyCountries) {
+      const dailyQuestion = dailyCountries.find(
+        (country) => !snapshot.askedQuestions.has(country.name)
+      );
+      if (!dailyQuestion) return null;
+      correctAnswer = dailyQuestion;
+    }
+
+    if (isTriviaMode(mode)) {
+      const trivia = random
+        .shuffle(remainingCountries)
+        .map((country) => ({
+          country,
+          prompt: createTriviaPrompt(country, mode, random),
+        }))
+        .find((candidate) => candidate.prompt !== null);
+
+      if (!trivia) return null;
+      correctAnswer = trivia.country;
+      prompt = trivia.prompt;
+    }
+
+    return {
+      country: correctAnswer,
+      options: getOptions(correctAnswer, settings, random),
+      prompt,
+    };
+  };
+
+  const askQuestion = (now: number) => {
+    if (
+      settings.questionCount !== null &&
+      snapshot.answers.length >= settings.questionCount
+    ) {
+      endGame("completed");
+      return;
+    }
+
+    const next = pickQuestion(now);
+    if (!next) {
+      endGame("completed");
+      return;
+    }
+
+    const question = { ...next, askedAt: now };
+    update(
+      {
+        status: "question",
+        question,
+        selectedAnswer: null,
+        isCorrect: null,
+        hintUsed: false,
+      },
+      { type: "question", question }
+    );
+  };
+
+  const answer = (choice: Country, timestamp: number): AnswerRecord | null => {
+    const { question } = snapshot;
+    if (snapshot.status !== "question" || !question || snapshot.isPaused) {
+      return null;
+    }
+    // The clock only runs out on a tick, so an answer that arrives after the
+    // deadline ends the game instead of counting
+    if (deadline !== null && timestamp >= deadline) {
+      tick(timestamp);
+      return null;
+    }
+
+    const correct = choice.name === question.country.name;
+    const streak = correct ? snapshot.streak + 1 : 0;
+    const responseTime = timestamp - question.askedAt;
+    const record: AnswerRecord = {
+      country: question.country,
+      selected: choice,
+      correct,
+      responseTime,
+      usedHint: snapshot.hintUsed,
+      prompt: question.prompt,
+      score: correct
+        ? scoreAnswer(
+            {
+              streak,
+              responseTime,
+              difficulty: settings.difficulty,
+              usedHint: snapshot.hintUsed,
+              regionSize: regionCountries.length,
+              totalCountries: settings.countries.length,
+            },
+            settings.scoringRules
+          )
+        : null,
+    };
+    const lives = correct ? snapshot.lives : snapshot.lives - 1;
+
+    answeredAt = timestamp;
+    update(
+      {
+        status: "feedback",
+        selectedAnswer: choice,
+        isCorrect: correct,
+        score: snapshot.score + (record.score?.total ?? 0),
+        lives,
+        streak,
+        bestStreak: Math.max(snapshot.bestStreak, streak),
+        correctAnswers: snapshot.correctAnswers + (correct ? 1 : 0),
+        askedQuestions: new Set([
+          ...snapshot.askedQuestions,
+          question.country.name,
+        ]),
+        answers: [...snapshot.answers, record],
+        learningProgress: snapshot.learningProgress && {
+          ...snapshot.learningProgress,
+          [question.country.name]: reviewCard(
+            snapshot.learningProgress[question.country.name],
+            correct,
+            timestamp
+          ),
+        },
+      },
+      { type: "answer", record, streak }
+    );
+
+    if (lives <= 0) {
+      endGame("lives");
+    }
+    return record;
+  };
+
+  const answerTyped = (
+    text: string,
+    timestamp: number
+  ): AnswerRecord | null => {
+    if (!snapshot.question) return null;
+
+    const match = matchTypedAnswer(
+      text,
+      snapshot.question.country,
+      settings.countries
+    );
+    // Unmatched text is kept as a placeholder so the review can show it
+    return answer(
+      match ?? {
+        name: text.trim(),
+        capital: "",
+        continent: "",
+        subregion: "",
+        flag: "",
+      },
+      timestamp
+    );
+  };
+
+  const revealHint = () => {
+    if (
+      snapshot.status !== "question" ||
+      snapshot.hintUsed ||
+      snapshot.isPaused
+    ) {
+      return;
+    }
+    update({ hintUsed: true }, { type: "hint" });
+  };
+
+  const tick = (now: number) => {
+    if (snapshot.status === "over" || snapshot.isPaused) return;
+
+    if (snapshot.status === "ready") {
+      if (settings.timeLimit !== null) {
+        deadline = now + settings.timeLimit * 1000;
+      }
+      askQuestion(now);
+      return;
+    }
+
+    if (deadline !== null) {
+      const timeRemaining = Math.max(0, Math.ceil((deadline - now) / 1000));
+      if (timeRemaining !== snapshot.timeRemaining) {
+        update({ timeRemaining }, { type: "tick", timeRemaining });
+      }
+      if (timeRemaining === 0) {
+        endGame("time");
+        return;
+      }
+    }
+
+    if (snapshot.status === "feedback" && now - answeredAt >= FEEDBACK_DELAY) {
+      askQuestion(now);
+    }
+  };
+
+  const pause = (now: number) => {
+    if (snapshot.status === "over" || snapshot.isPaused) return;
+    pausedAt = now;
+    update({ isPaused: true }, { type: "pause" });
+  };
+
+  const resume = (now: number) => {
+    if (pausedAt === null) return;
+
+    // Everything timed from before the pause moves on by its length, so the
+    // clock, response times and feedback delay ignore the break
+    const pausedFor = now - pausedAt;
+    pausedAt = null;
+    if (deadline !== null) deadline += pausedFor;
+    answeredAt += pausedFor;
+    const { question } = snapshot;
+    update(
+      {
+        isPaused: false,
+        question: question && {
+          ...question,
+          askedAt: question.askedAt + pausedFor,
+        },
+      },
+      { type: "resume" }
+    );
+    tick(now);
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    answer,
+    answerTyped,
+    revealHint,
+    tick,
+    pause,
+    resume,
+    finish: () => endGame("finished"),
+  };
+};
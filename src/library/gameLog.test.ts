@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+import {
+  GameLog,
+  MAX_PAUSED_TIME,
+  MAX_PAUSES,
+  MAX_UNTIMED_SPAN,
+  MIN_RESPONSE_TIME,
+  ReplayError,
+  getFinishedAt,
+  parseGameLog,
+  replayGame,
+  toJsonLog,
+} from "@/library/gameLog";
+import { GameSetup, defaultGameSetup } from "@/library/gameSetup";
+import { countries, playGame, timedSetup, untimedSetup } from "@/test/playGame";
+
+const expectRejected = (log: GameLog, message: RegExp) => {
+  expect(() => replayGame(countries, log)).toThrow(ReplayError);
+  expect(() => replayGame(countries, log)).toThrow(message);
+};
+
+describe("recordGame", () => {
+  it("leaves out ticks that only count the clock down", () => {
+    const { entries } = playGame();
+    const ticks = entries.filter((entry) => entry.type === "tick").length;
+    const answers = entries.filter((entry) => entry.type === "answer").length;
+
+    // One tick per question asked, plus the one that ran out of time,
+    // out of the 720 ticks of the three minutes
+    expect(ticks).toBeGreaterThanOrEqual(answers + 1);
+    expect(ticks).toBeLessThanOrEqual(answers + 2);
+  });
+});
+
+describe("replayGame", () => {
+  it("earns the same score as the recorded game", () => {
+    const log = playGame();
+    const snapshot = replayGame(countries, log);
+
+    expect(snapshot.gameOverReason).toBe("time");
+    expect(snapshot.score).toBeGreaterThan(0);
+    expect(replayGame(countries, log).score).toBe(snapshot.score);
+  });
+
+  it("replays logs sent as JSON, including infinite lives", () => {
+    const setup: GameSetup = {
+      ...timedSetup,
+      variant: "custom",
+      customTimeLimit: 60,
+      customLives: Infinity,
+    };
+    const log = playGame({ setup });
+    const sent = JSON.parse(JSON.stringify(toJsonLog(log)));
+
+    expect(sent.setup.customLives).toBeNull();
+    const parsed = parseGameLog(sent);
+    expect(parsed).toEqual(log);
+    expect(replayGame(countries, parsed).score).toBe(
+      replayGame(countries, log).score
+    );
+  });
+
+  it("accepts a few short pauses", () => {
+    const log = playGame({ setup: untimedSetup, pauseLength: 5000 });
+    expect(replayGame(countries, log).gameOverReason).toBe("completed");
+  });
+
+  it("rejects answers faster than a person can give", () => {
+    const log = playGame({ answerDelay: MIN_RESPONSE_TIME - 50 });
+    expectRejected(log, /faster than humanly possible/);
+  });
+
+  it("rejects time running backwards", () => {
+    const log = playGame();
+    const [, second, third] = log.entries;
+    if (second.type !== "answer" || third.type !== "tick") {
+      throw new Error("Expected an answer and then a tick");
+    }
+    third.at = second.at - 1;
+    expectRejected(log, /goes back in time/);
+  });
+
+  it("rejects choices that weren't offered", () => {
+    const log = playGame();
+    const answer = log.entries.find((entry) => entry.type === "answer")!;
+    if (answer.type === "answer") answer.choice = "Atlantis";
+    expectRejected(log, /Atlantis wasn't one of the options/);
+  });
+
+  it("rejects inputs the game wouldn't have accepted", () => {
+    const log = playGame();
+    log.entries.splice(1, 0, {
+      type: "tick",
+      at: log.entries[0].type === "tick" ? log.entries[0].at + 1 : 0,
+    });
+    expectRejected(log, /didn't accept a tick/);
+  });
+
+  it("rejects logs that stop before the game is over", () => {
+    const log = playGame();
+    log.entries = log.entries.slice(0, 10);
+    expectRejected(log, /ends before the game is over/);
+  });
+
+  it("rejects inputs after the game ended", () => {
+    const log = playGame();
+    log.entries.push({ type: "finish" });
+    expectRejected(log, /goes on after the game ended/);
+  });
+
+  it("rejects too many pauses", () => {
+    const setup: GameSetup = { ...untimedSetup, questionCount: 50 };
+    const log = playGame({ setup, pauseLength: 1000 });
+    expect(
+      log.entries.filter((entry) => entry.type === "pause").length
+    ).toBeGreaterThan(MAX_PAUSES);
+    expectRejected(log, /Paused more than/);
+  });
+
+  it("rejects pausing for too long in total", () => {
+    const log = playGame({
+      setup: untimedSetup,
+      pauseLength: MAX_PAUSED_TIME / 5,
+    });
+    expectRejected(log, /Paused for too long/);
+  });
+
+  it("leaves pauses from leaving the tab out of the pause limits", () => {
+    const setup: GameSetup = { ...untimedSetup, questionCount: 50 };
+    const log = playGame({ setup, pauseLength: 60 * 1000, autoPause: true });
+    expect(replayGame(countries, log).gameOverReason).toBe("completed");
+
+    const sent = parseGameLog(JSON.parse(JSON.stringify(toJsonLog(log))));
+    expect(sent).toEqual(log);
+  });
+
+  it("rejects a long pause before every answer", () => {
+    const log = playGame({ pauseLength: 10 * 60 * 1000 });
+    expectRejected(log, /Paused/);
+  });
+
+  it("rejects games without a clock that take implausibly long", () => {
+    const log = playGame({
+      setup: untimedSetup,
+      answerDelay: MAX_UNTIMED_SPAN / 9,
+    });
+    expectRejected(log, /implausibly long/);
+  });
+});
+
+describe("parseGameLog", () => {
+  it("rejects logs that aren't shaped like one", () => {
+    const log = toJsonLog(playGame());
+    for (const input of [
+      null,
+      "log",
+      { ...log, seed: 42 },
+      { ...log, seed: "x".repeat(101) },
+      { ...log, region: 1 },
+      { ...log, setup: null },
+      { ...log, entries: {} },
+      { ...log, entries: new Array(10001).fill({ type: "hint" }) },
+    ]) {
+      expect(() => parseGameLog(input)).toThrow(/malformed/);
+    }
+  });
+
+  it("rejects unreadable entries", () => {
+    const log = toJsonLog(playGame());
+    for (const entry of [
+      { type: "teleport" },
+      { type: "tick" },
+      { type: "tick", at: "soon" },
+      { type: "answer", at: 1 },
+      { type: "answerTyped", text: 1, at: 1 },
+      null,
+    ]) {
+      expect(() => parseGameLog({ ...log, entries: [entry] })).toThrow(
+        /unreadable entry/
+      );
+    }
+  });
+
+  it("falls back to the default setup for unknown values", () => {
+    const log = toJsonLog(playGame());
+    const parsed = parseGameLog({
+      ...log,
+      setup: { ...log.setup, variant: "godMode", optionCount: 3 },
+    });
+    expect(parsed.setup.variant).toBe(defaultGameSetup.variant);
+    expect(parsed.setup.optionCount).toBe(defaultGameSetup.optionCount);
+  });
+});
+
+describe("getFinishedAt", () => {
+  it("is the time of the last timed input", () => {
+    const log = playGame();
+    log.entries.push({ type: "finish" });
+    const last = log.entries.at(-2);
+    expect(getFinishedAt(log)).toBe(last && "at" in last ? last.at : null);
+    expect(getFinishedAt({ ...log, entries: [{ type: "finish" }] })).toBeNull();
+  });
+});
@@ -0,0 +1,336 @@
+import { Country } from "@/library/gameTypes";
+import {
+  EngineSettings,
+  Game,
+  GameSnapshot,
+  createGame,
+} from "@/library/gameEngine";
+import { GameSetup, getSetupRules, sanitizeSetup } from "@/library/gameSetup";
+
+/**
+ * Fastest answer a person can give, in milliseconds. Replays reject
+ * anything quicker.
+ */
+export const MIN_RESPONSE_TIME = 300;
+
+/**
+ * Pauses a game may take, and how long they may last in total. Paused time
+ * doesn't count towards response times, so unlimited pauses would allow
+ * looking every answer up. Pauses from leaving the tab or window aren't
+ * counted, so switching away during an ordinary game can't get it rejected.
+ */
+export const MAX_PAUSES = 20;
+export const MAX_PAUSED_TIME = 10 * 60 * 1000;
+
+/**
+ * Longest a game without a clock may take, from its first input to its last
+ */
+export const MAX_UNTIMED_SPAN = 3 * 60 * 60 * 1000;
+
+// Timed games end on the first tick after the deadline, which a busy
+// browser may run a little late
+const MAX_TICK_DELAY = 60 * 1000;
+
+const MAX_LOG_ENTRIES = 10000;
+
+/**
+ * One input the game accepted, with the timestamp it was given
+ */
+export type GameLogEntry =
+  | { type: "tick"; at: number }
+  | { type: "answer"; choice: string; at: number } // Country name
+  | { type: "answerTyped"; text: string; at: number }
+  | { type: "hint" }
+  | { type: "pause"; at: number; auto?: true } // Auto from leaving the tab
+  | { type: "resume"; at: number }
+  | { type: "finish" };
+
+/**
+ * What a regular game was started with. Daily challenges, learning sessions
+ * and mistake retries aren't ranked, so they have no log.
+ */
+export interface RankedGame {
+  setup: GameSetup;
+  region: string | null;
+  subregion: string | null;
+}
+
+/**
+ * Everything needed to play a regular game again exactly as it went
+ */
+export interface GameLog extends RankedGame {
+  seed: string;
+  entries: GameLogEntry[];
+}
+
+export interface RecordedGame extends Game {
+  /** Pauses the game; auto pauses are left out of the pause limits */
+  pause: (now: number, auto?: boolean) => void;
+  /** Every input accepted so far, in order */
+  getEntries: () => GameLogEntry[];
+}
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReplayError";
+  }
+}
+
+export const getRankedSettings = (
+  countries: Country[],
+  { setup, region, subregion }: RankedGame
+): EngineSettings => ({
+  countries,
+  questionMode: setup.questionMode,
+  difficulty: setup.difficulty,
+  ...getSetupRules(setup),
+  optionCount: setup.optionCount,
+  questionCount: setup.questionCount,
+  region,
+  subregion,
+  dailyKey: null,
+  questionPool: null,
+  learningProgress: null,
+});
+
+/**
+ * Whether an input did anything. Ticks that only count the clock down are
+ * left out of the log, since replaying the next one catches the clock up.
+ */
+const isAccepted = (
+  entry: GameLogEntry,
+  before: GameSnapshot,
+  after: GameSnapshot
+): boolean =>
+  entry.type === "tick" ? after.status !== before.status : after !== before;
+
+/**
+ * Wraps a game so the inputs it accepts are logged for replaying
+ */
+export const recordGame = (game: Game): RecordedGame => {
+  const entries: GameLogEntry[] = [];
+
+  const record = <T>(entry: GameLogEntry, apply: () => T): T => {
+    const before = game.getSnapshot();
+    const result = apply();
+    if (isAccepted(entry, before, game.getSnapshot())) entries.push(entry);
+    return result;
+  };
+
+  return {
+    ...game,
+    answer: (choice, timestamp) =>
+      record({ type: "answer", choice: choice.name, at: timestamp }, () =>
+        game.answer(choice, timestamp)
+      ),
+    answerTyped: (text, timestamp) =>
+      record({ type: "answerTyped", text, at: timestamp }, () =>
+        game.answerTyped(text, timestamp)
+      ),
+    revealHint: () => record({ type: "hint" }, game.revealHint),
+    tick: (now) => record({ type: "tick", at: now }, () => game.tick(now)),
+    pause: (now, auto = false) =>
+      record(
+        auto ? { type: "pause", at: now, auto } : { type: "pause", at: now },
+        () => game.pause(now)
+      ),
+    resume: (now) =>
+      record({ type: "resume", at: now }, () => game.resume(now)),
+    finish: () => record({ type: "finish" }, game.finish),
+    getEntries: () => [...entries],
+  };
+};
+
+/**
+ * The log as plain JSON. Infinite lives travel as null, like in presets.
+ */
+export const toJsonLog = (log: GameLog) => ({
+  ...log,
+  setup: {
+    ...log.setup,
+    customLives:
+      log.setup.customLives === Infinity ? null : log.setup.customLives,
+  },
+});
+
+const parseEntry = (input: unknown): GameLogEntry => {
+  const entry = (input ?? {}) as Record<string, unknown>;
+  const hasTime = typeof entry.at === "number" && Number.isFinite(entry.at);
+  const at = entry.at as number;
+
+  switch (entry.type) {
+    case "pause":
+      if (hasTime) {
+        return entry.auto === true
+          ? { type: "pause", at, auto: true }
+          : { type: "pause", at };
+      }
+      break;
+    case "tick":
+    case "resume":
+      if (hasTime) return { type: entry.type, at };
+      break;
+    case "answer":
+      if (hasTime && typeof entry.choice === "string") {
+        return { type: "answer", choice: entry.choice, at };
+      }
+      break;
+    case "answerTyped":
+      if (hasTime && typeof entry.text === "string") {
+        return { type: "answerTyped", text: entry.text, at };
+      }
+      break;
+    case "hint":
+    case "finish":
+      return { type: entry.type };
+  }
+  throw new ReplayError("The log has an unreadable entry");
+};
+
+/**
+ * Checks an untrusted log's shape. The setup falls back to the defaults like
+ * a preset does, which only changes the rules the log is replayed under.
+ */
+export const parseGameLog = (input: unknown): GameLog => {
+  const log = (input ?? {}) as Record<string, unknown>;
+  const isPlace = (value: unknown) =>
+    value === null || (typeof value === "string" && value.length <= 100);
+
+  if (
+    typeof log.seed !== "string" ||
+    log.seed.length > 100 ||
+    !isPlace(log.region) ||
+    !isPlace(log.subregion) ||
+    typeof log.setup !== "object" ||
+    log.setup === null ||
+    !Array.isArray(log.entries) ||
+    log.entries.length > MAX_LOG_ENTRIES
+  ) {
+    throw new ReplayError("The game log is malformed");
+  }
+
+  return {
+    seed: log.seed,
+    setup: sanitizeSetup(log.setup as Record<string, unknown>),
+    region: log.region as string | null,
+    subregion: log.subregion as string | null,
+    entries: log.entries.map(parseEntry),
+  };
+};
+
+/**
+ * When the last timed input happened, i.e. when the game finished
+ */
+export const getFinishedAt = (log: Pick<GameLog, "entries">): number | null =>
+  log.entries.reduce<number | null>(
+    (last, entry) => ("at" in entry ? entry.at : last),
+    null
+  );
+
+/**
+ * Plays a log through a fresh game and returns how it ended. Throws a
+ * ReplayError if an input doesn't fit the game, time runs backwards, an
+ * answer comes implausibly fast, the game pauses too often or too long,
+ * takes longer than its clock allows, or the log stops before it is over.
+ */
+export const replayGame = (
+  countries: Country[],
+  log: GameLog
+): GameSnapshot => {
+  const settings = getRankedSettings(countries, log);
+  const game = createGame(settings, log.seed);
+  let firstAt: number | null = null;
+  let lastAt = -Infinity;
+  let pauses = 0;
+  let pausedAt = 0;
+  let isAutoPause = false;
+  let pausedTime = 0; // Only pauses the player took
+  let totalPausedTime = 0;
+
+  for (const entry of log.entries) {
+    const before = game.getSnapshot();
+    if (before.status === "over") {
+      throw new ReplayError("The log goes on after the game ended");
+    }
+    if ("at" in entry) {
+      if (entry.at < lastAt) throw new ReplayError("The log goes back in time");
+      firstAt ??= entry.at;
+      lastAt = entry.at;
+    }
+
+    switch (entry.type) {
+      case "tick":
+        game.tick(entry.at);
+        break;
+      case "answer": {
+        const choice = before.question?.options.find(
+          (option) => option.name === entry.choice
+        );
+        if (!choice) {
+          throw new ReplayError(`${entry.choice} wasn't one of the options`);
+        }
+        game.answer(choice, entry.at);
+        break;
+      }
+      case "answerTyped":
+        game.answerTyped(entry.text, entry.at);
+        break;
+      case "hint":
+        game.revealHint();
+        break;
+      case "pause":
+        game.pause(entry.at);
+        break;
+      case "resume":
+        game.resume(entry.at);
+        break;
+      case "finish":
+        game.finish();
+        break;
+    }
+
+    const after = game.getSnapshot();
+    if (!isAccepted(entry, before, after)) {
+      throw new ReplayError(`The game didn't accept a ${entry.type} input`);
+    }
+    const record =
+      after.answers.length > before.answers.length
+        ? after.answers.at(-1)
+        : null;
+    if (record && record.responseTime < MIN_RESPONSE_TIME) {
+      throw new ReplayError(
+        `Answered in ${record.responseTime} ms, faster than humanly possible`
+      );
+    }
+
+    if (entry.type === "pause") {
+      isAutoPause = entry.auto === true;
+      if (!isAutoPause && ++pauses > MAX_PAUSES) {
+        throw new ReplayError(`Paused more than ${MAX_PAUSES} times`);
+      }
+      pausedAt = entry.at;
+    } else if (entry.type === "resume") {
+      totalPausedTime += entry.at - pausedAt;
+      if (!isAutoPause) pausedTime += entry.at - pausedAt;
+      if (pausedTime > MAX_PAUSED_TIME) {
+        throw new ReplayError("Paused for too long");
+      }
+    }
+  }
+
+  const span = firstAt === null ? 0 : lastAt - firstAt;
+  const maxSpan =
+    settings.timeLimit === null
+      ? MAX_UNTIMED_SPAN
+      : settings.timeLimit * 1000 + totalPausedTime + MAX_TICK_DELAY;
+  if (span > maxSpan) {
+    throw new ReplayError("The game took implausibly long");
+  }
+
+  const snapshot = game.getSnapshot();
+  if (snapshot.status !== "over") {
+    throw new ReplayError("The log ends before the game is over");
+  }
+  return snapshot;
+};
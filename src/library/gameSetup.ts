@@ -0,0 +1,217 @@
+import {
+  Difficulty,
+  GameVariant,
+  QuestionMode,
+  difficulties,
+  gameVariants,
+  questionModes,
+} from "@/library/gameTypes";
+import { getValue, putValue } from "@/library/localDatabase";
+
+const STORAGE_KEY = "lastSetup";
+
+export const TIME_LIMIT_CHOICES: Array<number | null> = [
+  60,
+  120,
+  180,
+  300,
+  null,
+];
+export const LIVES_CHOICES = [1, 2, 3, 4, 5, Infinity];
+export const OPTION_COUNT_CHOICES = [2, 4, 6, 8];
+export const QUESTION_COUNT_CHOICES: Array<number | null> = [10, 20, 50, null];
+
+/**
+ * Everything chosen on the setup screen before picking a region
+ */
+export interface GameSetup {
+  questionMode: QuestionMode;
+  difficulty: Difficulty;
+  variant: GameVariant;
+  customTimeLimit: number | null; // Seconds for the custom variant, null for no clock
+  customLives: number; // Lives for the custom variant, Infinity for none
+  optionCount: number; // Answers offered per question
+  questionCount: number | null; // Questions per game, null to play the region out
+}
+
+/**
+ * A setup shared as a link, optionally with the seed so friends get the
+ * exact same game
+ */
+export interface GamePreset extends GameSetup {
+  seed: string | null;
+}
+
+export const defaultGameSetup: GameSetup = {
+  questionMode: "flag",
+  difficulty: "normal",
+  variant: "classic",
+  customTimeLimit: 180,
+  customLives: 3,
+  optionCount: 4,
+  questionCount: null,
+};
+
+/**
+ * Copies just the setup fields out of a larger settings object
+ */
+export const pickGameSetup = (settings: GameSetup): GameSetup => ({
+  questionMode: settings.questionMode,
+  difficulty: settings.difficulty,
+  variant: settings.variant,
+  customTimeLimit: settings.customTimeLimit,
+  customLives: settings.customLives,
+  optionCount: settings.optionCount,
+  questionCount: settings.questionCount,
+});
+
+export const formatTimeLimit = (timeLimit: number | null): string =>
+  timeLimit === null ? "No clock" : `${timeLimit / 60} min`;
+
+export const formatLives = (lives: number): string =>
+  lives === Infinity ? "∞" : `${lives}`;
+
+/**
+ * Short summary of a clock and lives, e.g. "2 min, 3 lives"
+ */
+export const describeRules = ({
+  timeLimit,
+  lives,
+}: {
+  timeLimit: number | null;
+  lives: number;
+}): string =>
+  `${formatTimeLimit(timeLimit)}, ${
+    lives === Infinity ? "no lives" : lives === 1 ? "1 life" : `${lives} lives`
+  }`;
+
+/**
+ * Clock and lives a game is played with under the chosen variant
+ */
+export const getSetupRules = (
+  setup: GameSetup
+): { timeLimit: number | null; lives: number } =>
+  setup.variant === "custom"
+    ? { timeLimit: setup.customTimeLimit, lives: setup.customLives }
+    : gameVariants[setup.variant];
+
+/**
+ * Identifies the rules a score was earned under: the variant with its clock
+ * and lives, the question mode, and how many options and questions there
+ * were. Scores only compare between games with the same key, which the
+ * leaderboard and local high scores are kept by.
+ */
+export const getRulesKey = (setup: GameSetup): string => {
+  const { timeLimit, lives } = getSetupRules(setup);
+  return [
+    setup.variant,
+    setup.questionMode,
+    setup.optionCount,
+    setup.questionCount ?? "all",
+    timeLimit ?? "untimed",
+    lives,
+  ].join(":");
+};
+
+/**
+ * Checks untrusted input field by field, falling back to the defaults for
+ * anything missing or out of range
+ */
+export const sanitizeSetup = (input: Record<string, unknown>): GameSetup => {
+  const pick = <T>(value: unknown, choices: readonly T[], fallback: T): T =>
+    choices.includes(value as T) ? (value as T) : fallback;
+
+  return {
+    questionMode: pick(
+      input.questionMode,
+      Object.keys(questionModes) as QuestionMode[],
+      defaultGameSetup.questionMode
+    ),
+    difficulty: pick(
+      input.difficulty,
+      Object.keys(difficulties) as Difficulty[],
+      defaultGameSetup.difficulty
+    ),
+    variant: pick(
+      input.variant,
+      Object.keys(gameVariants) as GameVariant[],
+      defaultGameSetup.variant
+    ),
+    customTimeLimit: pick(
+      input.customTimeLimit,
+      TIME_LIMIT_CHOICES,
+      defaultGameSetup.customTimeLimit
+    ),
+    // JSON has no Infinity, so infinite lives travel as null
+    customLives: pick(
+      input.customLives === null ? Infinity : input.customLives,
+      LIVES_CHOICES,
+      defaultGameSetup.customLives
+    ),
+    optionCount: pick(
+      input.optionCount,
+      OPTION_COUNT_CHOICES,
+      defaultGameSetup.optionCount
+    ),
+    questionCount: pick(
+      input.questionCount,
+      QUESTION_COUNT_CHOICES,
+      defaultGameSetup.questionCount
+    ),
+  };
+};
+
+export const loadGameSetup = async (): Promise<GameSetup | null> => {
+  try {
+    const saved = await getValue<Record<string, unknown>>(
+      "settings",
+      STORAGE_KEY
+    );
+    return saved ? sanitizeSetup(saved) : null;
+  } catch (error) {
+    console.error("Error loading game setup:", error);
+    return null;
+  }
+};
+
+export const saveGameSetup = (setup: GameSetup) =>
+  putValue("settings", STORAGE_KEY, setup).catch((error) =>
+    console.error("Error saving game setup:", error)
+  );
+
+/**
+ * Encodes a preset as URL-safe base64. The JSON goes through UTF-8 first, so
+ * seeds aren't limited to Latin-1.
+ */
+export const encodePreset = (preset: GamePreset): string => {
+  const json = JSON.stringify({
+    ...preset,
+    customLives: preset.customLives === Infinity ? null : preset.customLives,
+  });
+  return btoa(String.fromCharCode(...new TextEncoder().encode(json)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+/**
+ * Decodes a preset from encodePreset, or returns null if it can't be read
+ */
+export const decodePreset = (encoded: string): GamePreset | null => {
+  try {
+    const bytes = Uint8Array.from(
+      atob(encoded.replace(/-/g, "+").replace(/_/g, "/")),
+      (char) => char.charCodeAt(0)
+    );
+    const input = JSON.parse(new TextDecoder().decode(bytes));
+    if (typeof input !== "object" || input === null) return null;
+
+    return {
+      ...sanitizeSetup(input),
+      seed: typeof input.seed === "string" && input.seed ? input.seed : null,
+    };
+  } catch (error) {
+    console.error("Error reading preset:", error);
+    return null;
+  }
+};
@@ -0,0 +1,154 @@
+import type { ScoreBreakdown } from "@/library/scoring";
+
+/**
+ * A single country record as loaded from /countries.json, merged with the
+ * extra attributes from /countries_v2.json
+ */
+export interface Country {
+  name: string;
+  capital: string;
+  continent: string;
+  subregion: string;
+  flag: string;
+  fact?: string;
+  currency?: string;
+  wikiLink?: string;
+  totalArea?: number; // Square kilometres
+  gdpPerCapita?: number | null; // US dollars, null where unknown
+  iconicPlaces?: string[];
+  similarFlags?: string[]; // Most alike flags first, from /flag-similarity.json
+}
+
+/**
+ * Kind of question asked each round
+ * - "flag": show a country name, pick the matching flag
+ * - "name": show a flag, pick the matching country name
+ * - "typed": show a flag, type the country name
+ * - "capital": show a country, pick its capital city
+ * - "capitalCountry": show a capital city, pick the country it belongs to
+ * - "landmark": show an iconic place, pick the country it is in
+ * - "fact": show a fact with the country redacted, pick the country
+ * - "compareArea": show two flags, pick the larger country
+ * - "compareGdp": show two flags, pick the richer country
+ */
+export type QuestionMode =
+  | "flag"
+  | "name"
+  | "typed"
+  | "capital"
+  | "capitalCountry"
+  | "landmark"
+  | "fact"
+  | "compareArea"
+  | "compareGdp";
+
+export const questionModes: Record<QuestionMode, string> = {
+  flag: "Find the Flag",
+  name: "Name the Flag",
+  typed: "Type the Country",
+  capital: "Capital Cities",
+  capitalCountry: "Country by Capital",
+  landmark: "Iconic Places",
+  fact: "Fun Facts",
+  compareArea: "Bigger Country",
+  compareGdp: "Richer Country",
+};
+
+/**
+ * Whether the question mode asks about capital cities
+ */
+export const isCapitalMode = (mode: QuestionMode): boolean =>
+  mode === "capital" || mode === "capitalCountry";
+
+/**
+ * Whether the question mode is a higher-or-lower comparison of two countries
+ */
+export const isComparisonMode = (
+  mode: QuestionMode
+): mode is "compareArea" | "compareGdp" =>
+  mode === "compareArea" || mode === "compareGdp";
+
+/**
+ * Whether the question mode is a trivia prompt generated from country data
+ */
+export const isTriviaMode = (mode: QuestionMode): mode is "landmark" | "fact" =>
+  mode === "landmark" || mode === "fact";
+
+/**
+ * Rule set a game is played with
+ */
+export type GameVariant =
+  | "classic"
+  | "timeAttack"
+  | "suddenDeath"
+  | "endless"
+  | "custom";
+
+interface GameVariantRules {
+  name: string;
+  description: string;
+  timeLimit: number | null; // Seconds on the clock, null for no clock
+  lives: number; // Infinity for no lives
+}
+
+export const gameVariants: Record<GameVariant, GameVariantRules> = {
+  classic: {
+    name: "Classic",
+    description: "3 minutes, 3 lives",
+    timeLimit: 180,
+    lives: 3,
+  },
+  timeAttack: {
+    name: "Time Attack",
+    description: "3 minutes, no lives",
+    timeLimit: 180,
+    lives: Infinity,
+  },
+  suddenDeath: {
+    name: "Sudden Death",
+    description: "No clock, one life",
+    timeLimit: null,
+    lives: 1,
+  },
+  endless: {
+    name: "Endless",
+    description: "Practice until every flag is done",
+    timeLimit: null,
+    lives: Infinity,
+  },
+  // Clock and lives come from the advanced setup, these are the defaults
+  custom: {
+    name: "Custom",
+    description: "Your own clock and lives",
+    timeLimit: 180,
+    lives: 3,
+  },
+};
+
+/**
+ * How hard the distractors offered alongside the correct answer are
+ * - "easy": countries from other continents
+ * - "normal": countries from the same continent
+ * - "hard": look-alike flags, or the same subregion when the question
+ *   isn't about flags
+ */
+export type Difficulty = "easy" | "normal" | "hard";
+
+export const difficulties: Record<Difficulty, string> = {
+  easy: "Easy",
+  normal: "Normal",
+  hard: "Hard",
+};
+
+/**
+ * What happened on a single question, kept for the post-game review
+ */
+export interface AnswerRecord {
+  country: Country; // Correct answer
+  selected: Country; // Option picked, or a placeholder carrying typed text
+  correct: boolean;
+  responseTime: number; // Milliseconds from the question appearing
+  usedHint: boolean;
+  prompt: string | null; // Trivia prompt shown, if any
+  score: ScoreBreakdown | null; // Null for wrong answers
+}
@@ -0,0 +1,33 @@
+import { GameSetup, getRulesKey } from "@/library/gameSetup";
+import { getValue, putValue } from "@/library/localDatabase";
+
+const STORAGE_KEY = "highScores";
+
+/**
+ * Best scores keyed by getRulesKey, so only games played under the same
+ * rules compare. Scores saved per variant before rules keys stay in the map
+ * and still count towards the overall best.
+ */
+export type HighScores = Record<string, number>;
+
+export const emptyHighScores = (): HighScores => ({});
+
+export const loadHighScores = async (): Promise<HighScores> => {
+  try {
+    return (await getValue<HighScores>("progress", STORAGE_KEY)) ?? {};
+  } catch (error) {
+    console.error("Error loading high scores:", error);
+    return emptyHighScores();
+  }
+};
+
+export const saveHighScores = (highScores: HighScores) =>
+  putValue("progress", STORAGE_KEY, highScores).catch((error) =>
+    console.error("Error saving high scores:", error)
+  );
+
+/**
+ * The best score under a setup's rules, zero if none was played yet
+ */
+export const getHighScore = (highScores: HighScores, setup: GameSetup) =>
+  highScores[getRulesKey(setup)] ?? 0;
@@ -0,0 +1,361 @@
+import { Difficulty, GameVariant, QuestionMode } from "@/library/gameTypes";
+import type { AnswerEvent } from "@/library/answerHistory";
+
+const DB_NAME = "flagquest";
+
+const EXPORT_FORMAT = "flagquest-progress";
+
+/**
+ * localStorage keys used before progress moved to IndexedDB. They are read
+ * once by the first migration and removed after it commits.
+ */
+const LEGACY_KEYS = {
+  highScores: "flagquest-highscores",
+  highScore: "flagquest-highscore",
+  achievements: "flagquest-achievements",
+  history: "flagquest-history",
+  daily: "flagquest-daily",
+  learning: "flagquest-learning",
+};
+
+/**
+ * A finished game together with the settings it was played with
+ */
+export interface GameRecord {
+  gameId: string;
+  seed: string;
+  variant: GameVariant;
+  questionMode: QuestionMode;
+  difficulty: Difficulty;
+  region: string | null;
+  subregion: string | null;
+  dailyKey: string | null;
+  isLearning: boolean;
+  score: number;
+  correctAnswers: number;
+  totalAnswers: number;
+  finishedAt: number;
+}
+
+export interface AchievementRecord {
+  id: string;
+  unlocked: boolean;
+  unlockedAt: number | null;
+  progress?: number; // Towards the goal, missing before progress was tracked
+}
+
+/**
+ * Key-value stores: "settings" holds player preferences, "progress" holds
+ * high scores, daily results and learning progress
+ */
+type ValueStore = "settings" | "progress";
+
+/**
+ * Everything in the database, as written by exportProgress
+ */
+export interface ProgressExport {
+  format: typeof EXPORT_FORMAT;
+  version: number; // Schema version the export was taken with
+  exportedAt: string;
+  games: GameRecord[];
+  answers: AnswerEvent[];
+  achievements: AchievementRecord[];
+  settings: Record<string, unknown>;
+  progress: Record<string, unknown>;
+}
+
+const readLegacyKey = <T>(key: string): T | null => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Copies progress from the old localStorage keys into the new stores
+ */
+const migrateLocalStorage = (transaction: IDBTransaction) => {
+  const progress = transaction.objectStore("progress");
+
+  const legacyScore = readLegacyKey<number>(LEGACY_KEYS.highScore);
+  const highScores =
+    readLegacyKey<Record<string, number>>(LEGACY_KEYS.highScores) ??
+    (legacyScore ? { classic: legacyScore } : null);
+  if (highScores) progress.put(highScores, "highScores");
+
+  const daily = readLegacyKey<Record<string, unknown>>(LEGACY_KEYS.daily);
+  if (daily) progress.put(daily, "dailyResults");
+
+  const learning = readLegacyKey<Record<string, unknown>>(LEGACY_KEYS.learning);
+  if (learning) progress.put(learning, "learningProgress");
+
+  const achievements = transaction.objectStore("achievements");
+  readLegacyKey<Array<{ id: string; unlocked: boolean }>>(
+    LEGACY_KEYS.achievements
+  )?.forEach(({ id, unlocked }) =>
+    achievements.put({ id, unlocked, unlockedAt: null })
+  );
+
+  const answers = transaction.objectStore("answers");
+  readLegacyKey<AnswerEvent[]>(LEGACY_KEYS.history)?.forEach((event) =>
+    answers.add(event)
+  );
+
+  transaction.addEventListener("complete", () =>
+    Object.values(LEGACY_KEYS).forEach((key) => localStorage.removeItem(key))
+  );
+};
+
+/**
+ * Schema migrations in order; migrations[n] upgrades version n to n + 1
+ */
+const migrations: Array<
+  (db: IDBDatabase, transaction: IDBTransaction) => void
+> = [
+  (db, transaction) => {
+    db.createObjectStore("games", { keyPath: "gameId" });
+    db.createObjectStore("answers", { autoIncrement: true }).createIndex(
+      "gameId",
+      "gameId"
+    );
+    db.createObjectStore("achievements", { keyPath: "id" });
+    db.createObjectStore("settings");
+    db.createObjectStore("progress");
+    migrateLocalStorage(transaction);
+  },
+  (db) => {
+    db.createObjectStore("syncQueue", { keyPath: "id" });
+  },
+];
+
+export const DB_VERSION = migrations.length;
+
+/**
+ * Stores included in exports. The sync queue belongs to this device and its
+ * sign-in, so it stays out of backups.
+ */
+const STORE_NAMES = [
+  "games",
+  "answers",
+  "achievements",
+  "settings",
+  "progress",
+] as const;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the database once per page load, running any pending migrations
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  databasePromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        migrations[version](request.result, request.transaction!);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+
+  return databasePromise;
+};
+
+const readAll = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise(
+    db.transaction(storeName).objectStore(storeName).getAll()
+  );
+};
+
+const readEntries = async (
+  storeName: ValueStore
+): Promise<Record<string, unknown>> => {
+  const db = await openDatabase();
+  const store = db.transaction(storeName).objectStore(storeName);
+  const [keys, values] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise(store.getAll()),
+  ]);
+  return Object.fromEntries(keys.map((key, i) => [String(key), values[i]]));
+};
+
+const writeAll = async (
+  storeName: string,
+  values: unknown[]
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, "readwrite");
+  const store = transaction.objectStore(storeName);
+  values.forEach((value) => store.put(value));
+  return transactionDone(transaction);
+};
+
+export const getValue = async <T>(
+  storeName: ValueStore,
+  key: string
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(
+    db.transaction(storeName).objectStore(storeName).get(key)
+  );
+};
+
+export const putValue = async (
+  storeName: ValueStore,
+  key: string,
+  value: unknown
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, "readwrite");
+  transaction.objectStore(storeName).put(value, key);
+  return transactionDone(transaction);
+};
+
+export const loadGames = () => readAll<GameRecord>("games");
+
+export const saveGame = (game: GameRecord) => writeAll("games", [game]);
+
+export const loadAnswers = () => readAll<AnswerEvent>("answers");
+
+export const addAnswer = async (event: AnswerEvent): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction("answers", "readwrite");
+  transaction.objectStore("answers").add(event);
+  return transactionDone(transaction);
+};
+
+export const loadAchievementRecords = () =>
+  readAll<AchievementRecord>("achievements");
+
+export const saveAchievementRecords = (records: AchievementRecord[]) =>
+  writeAll("achievements", records);
+
+/**
+ * Results waiting to be uploaded. Items are keyed by their `id` field.
+ */
+export const loadSyncQueue = <T extends { id: string }>() =>
+  readAll<T>("syncQueue");
+
+export const putSyncItems = <T extends { id: string }>(items: T[]) =>
+  writeAll("syncQueue", items);
+
+export const deleteSyncItem = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction("syncQueue", "readwrite");
+  transaction.objectStore("syncQueue").delete(id);
+  return transactionDone(transaction);
+};
+
+/**
+ * Snapshot of all stored progress, for backups or moving between browsers
+ */
+export const exportProgress = async (): Promise<ProgressExport> => {
+  const [games, answers, achievements, settings, progress] = await Promise.all([
+    loadGames(),
+    loadAnswers(),
+    loadAchievementRecords(),
+    readEntries("settings"),
+    readEntries("progress"),
+  ]);
+
+  return {
+    format: EXPORT_FORMAT,
+    version: DB_VERSION,
+    exportedAt: new Date().toISOString(),
+    games,
+    answers,
+    achievements,
+    settings,
+    progress,
+  };
+};
+
+/**
+ * Whether a backup field is missing or a list of records, each with a string
+ * key if the store is keyed by one
+ */
+const isRecordList = (value: unknown, keyPath?: string): boolean =>
+  value === undefined ||
+  (Array.isArray(value) &&
+    value.every(
+      (record) =>
+        typeof record === "object" &&
+        record !== null &&
+        (!keyPath || typeof record[keyPath] === "string")
+    ));
+
+const isKeyValueMap = (value: unknown): boolean =>
+  value === undefined ||
+  (typeof value === "object" && value !== null && !Array.isArray(value));
+
+/**
+ * Replaces all stored progress with an export. Throws without touching the
+ * database if the file isn't a progress export this version can read.
+ */
+export const importProgress = async (data: unknown): Promise<void> => {
+  const backup = data as Partial<ProgressExport> | null;
+  if (backup?.format !== EXPORT_FORMAT) {
+    throw new Error("Not a FlagQuest progress file");
+  }
+  if (typeof backup.version !== "number" || backup.version > DB_VERSION) {
+    throw new Error("Progress file is from a newer version of FlagQuest");
+  }
+  if (
+    !isRecordList(backup.games, "gameId") ||
+    !isRecordList(backup.answers) ||
+    !isRecordList(backup.achievements, "id") ||
+    !isKeyValueMap(backup.settings) ||
+    !isKeyValueMap(backup.progress)
+  ) {
+    throw new Error("Progress file is damaged");
+  }
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAMES, "readwrite");
+  const done = transactionDone(transaction);
+  const store = (name: (typeof STORE_NAMES)[number]) =>
+    transaction.objectStore(name);
+
+  try {
+    STORE_NAMES.forEach((name) => store(name).clear());
+    backup.games?.forEach((game) => store("games").put(game));
+    backup.answers?.forEach((event) => store("answers").add(event));
+    backup.achievements?.forEach((record) => store("achievements").put(record));
+    Object.entries(backup.settings ?? {}).forEach(([key, value]) =>
+      store("settings").put(value, key)
+    );
+    Object.entries(backup.progress ?? {}).forEach(([key, value]) =>
+      store("progress").put(value, key)
+    );
+  } catch (error) {
+    // Anything the checks above missed, e.g. a value that can't be stored,
+    // rolls the clears back as well
+    transaction.abort();
+    await done.catch(() => undefined);
+    throw error;
+  }
+
+  return done;
+};
@@ -0,0 +1,56 @@
+import { QuestionMode } from "@/library/gameTypes";
+import { loadHighScores } from "@/library/highScores";
+import { loadAchievementRecords, loadGames } from "@/library/localDatabase";
+
+/**
+ * What this device has achieved, in the shape of an account's stats
+ */
+export interface ProgressSummary {
+  highScore: number; // Best score across all variants
+  gamesPlayed: number;
+  totalScore: number;
+  totalCorrect: number;
+  totalIncorrect: number;
+  bestByMode: Partial<Record<QuestionMode, number>>;
+  bestByRegion: Record<string, number>; // Keyed by continent or "World"
+  achievements: string[]; // IDs of unlocked achievements
+}
+
+export const loadProgressSummary = async (): Promise<ProgressSummary> => {
+  const [highScores, games, achievements] = await Promise.all([
+    loadHighScores(),
+    loadGames(),
+    loadAchievementRecords(),
+  ]);
+
+  // Daily challenges and learning sessions don't count towards bests, like
+  // in the account's stats
+  const bestByMode: ProgressSummary["bestByMode"] = {};
+  const bestByRegion: ProgressSummary["bestByRegion"] = {};
+  games
+    .filter((game) => !game.dailyKey && !game.isLearning)
+    .forEach((game) => {
+      const region = game.region ?? "World";
+      bestByMode[game.questionMode] = Math.max(
+        bestByMode[game.questionMode] ?? 0,
+        game.score
+      );
+      bestByRegion[region] = Math.max(bestByRegion[region] ?? 0, game.score);
+    });
+
+  return {
+    highScore: Math.max(0, ...Object.values(highScores)),
+    gamesPlayed: games.length,
+    totalScore: games.reduce((sum, game) => sum + game.score, 0),
+    totalCorrect: games.reduce((sum, game) => sum + game.correctAnswers, 0),
+    totalIncorrect: games.reduce(
+      (sum, game) => sum + game.totalAnswers - game.correctAnswers,
+      0
+    ),
+    bestByMode,
+    bestByRegion,
+    achievements: achievements
+      .filter((record) => record.unlocked)
+      .map((record) => record.id),
+  };
+};
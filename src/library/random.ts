@@ -0,0 +1,61 @@
+/**
+ * Seeded pseudo-random number generator. Every random choice made while
+ * building a game goes through one of these, so a game is fully determined
+ * by its seed and settings.
+ */
+export interface Random {
+  next: () => number; // Float in [0, 1)
+  int: (max: number) => number; // Integer in [0, max)
+  pick: <T>(items: T[]) => T; // Uniformly chosen element
+  shuffle: <T>(items: T[]) => T[]; // Shuffled copy (Fisher-Yates)
+}
+
+/**
+ * Hashes a seed string to a 32-bit integer (FNV-1a)
+ */
+const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Creates a mulberry32 generator for the given seed
+ */
+export const createRandom = (seed: string): Random => {
+  let state = hashSeed(seed.trim().toLowerCase());
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (max: number) => Math.floor(next() * max);
+
+  return {
+    next,
+    int,
+    pick: (items) => items[int(items.length)],
+    shuffle: (items) => {
+      const shuffled = [...items];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = int(i + 1);
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    },
+  };
+};
+
+/**
+ * Generates a short, human-friendly seed for a new game
+ */
+export const generateSeed = (): string =>
+  Math.floor(Math.random() * 36 ** 6)
+    .toString(36)
+    .padStart(6, "0");
@@ -0,0 +1,127 @@
+import { Difficulty } from "@/library/gameTypes";
+
+/**
+ * What a correct answer is scored on
+ */
+export interface ScoreContext {
+  streak: number; // Correct answers in a row, including this one
+  responseTime: number; // Milliseconds
+  difficulty: Difficulty;
+  usedHint: boolean;
+  regionSize: number; // Countries in the region being played
+  totalCountries: number; // Countries in the whole game
+}
+
+/**
+ * One line of a score breakdown. Points are added up first, then the total
+ * is multiplied by every multiplier.
+ */
+export interface ScoreLine {
+  label: string;
+  kind: "points" | "multiplier";
+  value: number;
+}
+
+export interface ScoreBreakdown {
+  lines: ScoreLine[];
+  total: number;
+}
+
+/**
+ * A scoring rule contributes one line, or nothing when it doesn't apply
+ */
+export type ScoringRule = (context: ScoreContext) => ScoreLine | null;
+
+export const BASE_POINTS = 10;
+
+const TIME_BONUS_WINDOW = 5000;
+
+const difficultyMultipliers: Record<Difficulty, number> = {
+  easy: 0.75,
+  normal: 1,
+  hard: 1.5,
+};
+
+export const baseRule: ScoringRule = () => ({
+  label: "Correct",
+  kind: "points",
+  value: BASE_POINTS,
+});
+
+export const streakRule: ScoringRule = ({ streak }) => {
+  const bonus = Math.floor(streak / 3) * (BASE_POINTS / 2);
+  return bonus > 0
+    ? { label: `${streak} in a row`, kind: "points", value: bonus }
+    : null;
+};
+
+/**
+ * A point for every second left of the first five
+ */
+export const timeBonusRule: ScoringRule = ({ responseTime }) => {
+  const bonus = Math.ceil((TIME_BONUS_WINDOW - responseTime) / 1000);
+  return bonus > 0
+    ? { label: "Speed bonus", kind: "points", value: bonus }
+    : null;
+};
+
+export const hintPenaltyRule: ScoringRule = ({ usedHint }) =>
+  usedHint
+    ? { label: "Hint used", kind: "points", value: -BASE_POINTS / 2 }
+    : null;
+
+export const difficultyRule: ScoringRule = ({ difficulty }) =>
+  difficultyMultipliers[difficulty] !== 1
+    ? {
+        label: `${difficulty[0].toUpperCase()}${difficulty.slice(1)}`,
+        kind: "multiplier",
+        value: difficultyMultipliers[difficulty],
+      }
+    : null;
+
+export const noHintRule: ScoringRule = ({ usedHint }) =>
+  usedHint ? null : { label: "No hint", kind: "multiplier", value: 1.2 };
+
+/**
+ * Bigger regions have more flags to tell apart, up to x1.5 for the world
+ */
+export const regionSizeRule: ScoringRule = ({ regionSize, totalCountries }) => {
+  const multiplier =
+    Math.round((1 + (regionSize / Math.max(totalCountries, 1)) * 0.5) * 10) /
+    10;
+  return multiplier > 1
+    ? { label: "Region size", kind: "multiplier", value: multiplier }
+    : null;
+};
+
+export const defaultScoringRules: ScoringRule[] = [
+  baseRule,
+  streakRule,
+  timeBonusRule,
+  hintPenaltyRule,
+  difficultyRule,
+  noHintRule,
+  regionSizeRule,
+];
+
+/**
+ * Scores a correct answer with the given rules. The total is rounded and
+ * never negative.
+ */
+export const scoreAnswer = (
+  context: ScoreContext,
+  rules: ScoringRule[] = defaultScoringRules
+): ScoreBreakdown => {
+  const lines = rules
+    .map((rule) => rule(context))
+    .filter((line): line is ScoreLine => line !== null);
+
+  const points = lines
+    .filter((line) => line.kind === "points")
+    .reduce((sum, line) => sum + line.value, 0);
+  const multiplier = lines
+    .filter((line) => line.kind === "multiplier")
+    .reduce((product, line) => product * line.value, 1);
+
+  return { lines, total: Math.max(0, Math.round(points * multiplier)) };
+};
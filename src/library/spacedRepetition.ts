@@ -0,0 +1,103 @@
+import { Country } from "@/library/gameTypes";
+import { Random } from "@/library/random";
+import { getValue, putValue } from "@/library/localDatabase";
+
+const STORAGE_KEY = "learningProgress";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * Leitner box review intervals. A missed flag drops back to box 1 and comes
+ * back within the same session; every correct answer moves it up a box.
+ */
+const BOX_INTERVALS = [0, 1 * MINUTE, 10 * MINUTE, 1 * DAY, 3 * DAY, 14 * DAY];
+
+export const MASTERED_BOX = BOX_INTERVALS.length - 1;
+
+/**
+ * Review state of a single country
+ */
+export interface CardProgress {
+  box: number; // Leitner box, 1 to MASTERED_BOX
+  dueAt: number; // Timestamp after which the card should be reviewed again
+  correct: number;
+  incorrect: number;
+}
+
+export type LearningProgress = Record<string, CardProgress>;
+
+export type CardStatus = "new" | "learning" | "mastered";
+
+export const getCardStatus = (card: CardProgress | undefined): CardStatus => {
+  if (!card) return "new";
+  return card.box >= MASTERED_BOX ? "mastered" : "learning";
+};
+
+/**
+ * Moves a card between boxes after it was answered
+ */
+export const reviewCard = (
+  card: CardProgress | undefined,
+  correct: boolean,
+  now: number
+): CardProgress => {
+  const box = correct ? Math.min((card?.box ?? 0) + 1, MASTERED_BOX) : 1;
+  return {
+    box,
+    dueAt: now + BOX_INTERVALS[box],
+    correct: (card?.correct ?? 0) + (correct ? 1 : 0),
+    incorrect: (card?.incorrect ?? 0) + (correct ? 0 : 1),
+  };
+};
+
+/**
+ * Chooses the next country to learn from the pool:
+ * 1. the most overdue card that is due,
+ * 2. otherwise a card that hasn't been seen yet,
+ * 3. otherwise the learning card that is due soonest.
+ * Mastered cards only come back once they are due, or when nothing else is
+ * left. The previous question is skipped so a card never repeats directly.
+ */
+export const pickNextCard = (
+  pool: Country[],
+  progress: LearningProgress,
+  now: number,
+  random: Random,
+  previous: string | null
+): Country | null => {
+  const candidates = pool.filter((c) => c.name !== previous);
+  if (candidates.length === 0) return pool[0] ?? null;
+
+  const byDueDate = (a: Country, b: Country) =>
+    progress[a.name].dueAt - progress[b.name].dueAt;
+
+  const due = candidates
+    .filter((c) => progress[c.name] && progress[c.name].dueAt <= now)
+    .sort(byDueDate);
+  if (due.length > 0) return due[0];
+
+  const unseen = candidates.filter((c) => !progress[c.name]);
+  if (unseen.length > 0) return random.pick(unseen);
+
+  const learning = candidates
+    .filter((c) => getCardStatus(progress[c.name]) === "learning")
+    .sort(byDueDate);
+  if (learning.length > 0) return learning[0];
+
+  return random.pick(candidates);
+};
+
+export const loadLearningProgress = async (): Promise<LearningProgress> => {
+  try {
+    return (await getValue("progress", STORAGE_KEY)) ?? {};
+  } catch (error) {
+    console.error("Error loading learning progress:", error);
+    return {};
+  }
+};
+
+export const saveLearningProgress = (progress: LearningProgress) =>
+  putValue("progress", STORAGE_KEY, progress).catch((error) =>
+    console.error("Error saving learning progress:", error)
+  );
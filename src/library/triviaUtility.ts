@@ -0,0 +1,63 @@
+import { Country } from "@/library/gameTypes";
+import { countryAliases } from "@/library/answerMatching";
+import { Random } from "@/library/random";
+
+const REDACTION = "_____";
+
+/**
+ * Names that would give the answer away if they appeared in a trivia
+ * prompt, longest first so "Korea, South" wins over "Korea"
+ */
+const getRevealingNames = (country: Country): string[] => {
+  const names = [country.name, ...(countryAliases[country.name] ?? [])];
+
+  const [base, prefix] = country.name.split(", ");
+  if (prefix) {
+    names.push(`${prefix} ${base}`, base);
+  }
+
+  return [...new Set(names)].sort((a, b) => b.length - a.length);
+};
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Replaces every mention of the country (and its aliases) in the text
+ */
+export const redactCountryName = (text: string, country: Country): string =>
+  getRevealingNames(country).reduce(
+    (redacted, name) =>
+      redacted.replace(
+        new RegExp(`\\b${escapeRegExp(name)}\\b`, "gi"),
+        REDACTION
+      ),
+    text
+  );
+
+/**
+ * Iconic places usable as "X is in which country?" questions. Places that
+ * contain the country's own name ("Great Wall of China") are left out.
+ */
+export const getLandmarkCandidates = (country: Country): string[] =>
+  (country.iconicPlaces ?? []).filter(
+    (place) => redactCountryName(place, country) === place
+  );
+
+/**
+ * Builds the prompt text for a trivia question about the country, or null
+ * if the country has no data for that question type
+ */
+export const createTriviaPrompt = (
+  country: Country,
+  mode: "landmark" | "fact",
+  random: Random
+): string | null => {
+  if (mode === "fact") {
+    return country.fact ? redactCountryName(country.fact, country) : null;
+  }
+
+  const places = getLandmarkCandidates(country);
+  if (places.length === 0) return null;
+  return random.pick(places);
+};
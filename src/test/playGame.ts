@@ -0,0 +1,77 @@
+import { Country } from "@/library/gameTypes";
+import { createGame } from "@/library/gameEngine";
+import { GameSetup, defaultGameSetup } from "@/library/gameSetup";
+import { mergeCountryData } from "@/library/countryData";
+import { GameLog, getRankedSettings, recordGame } from "@/library/gameLog";
+import countryList from "../../public/countries.json";
+import countryExtras from "../../public/countries_v2.json";
+import flagSimilarity from "../../public/flag-similarity.json";
+
+// Test helpers that play recorded games against the data the submitScore
+// function replays with
+export const countries = mergeCountryData(
+  countryList as Country[],
+  countryExtras as Country[],
+  flagSimilarity as Record<string, string[]>
+);
+
+export const timedSetup: GameSetup = {
+  ...defaultGameSetup,
+  questionMode: "name",
+  variant: "timeAttack",
+  questionCount: null,
+};
+
+// Long enough to pause often, without running out of lives or time
+export const untimedSetup: GameSetup = {
+  ...timedSetup,
+  variant: "custom",
+  customTimeLimit: null,
+  customLives: Infinity,
+  questionCount: 10,
+};
+
+interface PlayOptions {
+  setup?: GameSetup;
+  answerDelay?: number; // From the question appearing to the answer
+  pauseLength?: number; // Pauses before every answer when set
+  autoPause?: boolean; // Pauses as if the player left the tab
+}
+
+/**
+ * Plays a game the way the page does, ticking every 250 ms, and answers
+ * every third question wrongly
+ */
+export const playGame = ({
+  setup = timedSetup,
+  answerDelay = 1200,
+  pauseLength,
+  autoPause = false,
+}: PlayOptions = {}): GameLog => {
+  const ranked = { setup, region: null, subregion: null };
+  const game = recordGame(
+    createGame(getRankedSettings(countries, ranked), "replay")
+  );
+  let now = 1_700_000_000_000;
+  let answered = 0;
+
+  while (game.getSnapshot().status !== "over") {
+    game.tick(now);
+    const { status, question } = game.getSnapshot();
+    if (status === "question" && now - question!.askedAt >= answerDelay) {
+      if (pauseLength !== undefined) {
+        game.pause(now, autoPause);
+        now += pauseLength;
+        game.resume(now);
+      }
+      const choice =
+        answered % 3 === 2
+          ? question!.options.find((o) => o.name !== question!.country.name)!
+          : question!.country;
+      game.answer(choice, now);
+      answered++;
+    }
+    now += 250;
+  }
+  return { seed: "replay", ...ranked, entries: game.getEntries() };
+};